@@ -9,7 +9,7 @@ export type WarixDataFilter<T> = (data: T, index: number, array: T[]) => boolean
 
 export class WarixDataSourceFilterOperator<T = any> {
     private readonly state$: WarixDataSubject<{ filter: WarixDataFilter<T>, involvedFields: string[] }>;
-    private readonly stateMap: WarixDataMap;
+    private readonly stateMap: WarixDataMap<{ filter: WarixDataFilter<T>, involvedFields: string[] }>;
 
     public get filter() {
         return this.state$.peekKey('filter');
@@ -18,7 +18,7 @@ export class WarixDataSourceFilterOperator<T = any> {
         this.state$.set('filter', value);
     }
     public get filter$() {
-        return this.stateMap.get<WarixDataFilter<T>>('filter');
+        return this.stateMap.get('filter');
     }
 
     public get involvedFields() {
@@ -28,7 +28,7 @@ export class WarixDataSourceFilterOperator<T = any> {
         this.state$.set('involvedFields', value);
     }
     public get involvedFields$() {
-        return this.stateMap.get<string[]>('involvedFields');
+        return this.stateMap.get('involvedFields');
     }
 
     constructor() {
@@ -8,7 +8,9 @@ import { isNotEmptyArray } from './common';
 
 export class WarixDataSourcePagerOperator {
     private readonly state$: WarixDataSubject<{ rowsPerPage: number, page: number, dataLength: number }>;
-    private readonly stateMap: WarixDataMap;
+    private readonly stateMap: WarixDataMap<{
+        rowsPerPage: number, page: number, dataLength: number, inFirstPage: boolean, inLastPage: boolean, pagerSourceArray: IWarixLocalDataSourcePagerItem[], pagesCount: number
+    }>;
     private readonly terminator$: Subject<void>;
 
     public get dataLength() {
@@ -18,33 +20,21 @@ export class WarixDataSourcePagerOperator {
         this.state$.set('dataLength', value);
     }
     public get dataLength$() {
-        return this.stateMap.get<number>('dataLength');
+        return this.stateMap.get('dataLength');
     }
 
     public get inFirstPage() {
         return (this.page || 0) === 0;
     }
     public get inFirstPage$() {
-        if (!this.stateMap.has('inFirstPage')) {
-            this.stateMap.set('inFirstPage', this.page$.pipe(map(x => (x || 0) === 0), distinctUntilChanged()));
-        }
-        return this.stateMap.get<boolean>('inFirstPage');
+        return this.stateMap.get('inFirstPage');
     }
 
     public get inLastPage() {
         return this.pagesCount - 1 === (this.page || 0);
     }
     public get inLastPage$() {
-        if (!this.stateMap.has('inLastPage')) {
-            this.stateMap.set('inLastPage',
-                combineLatest([
-                    this.pagesCount$.pipe(startWith(this.pagesCount)),
-                    this.page$.pipe(startWith(this.page))
-                ]).pipe(
-                    map(x => x[0] - 1 === (x[1] || 0)),
-                    distinctUntilChanged()));
-        }
-        return this.stateMap.get<boolean>('inLastPage');
+        return this.stateMap.get('inLastPage');
     }
 
     public get rowsPerPage() {
@@ -54,7 +44,7 @@ export class WarixDataSourcePagerOperator {
         this.paging(value, this.page);
     }
     public get rowsPerPage$() {
-        return this.stateMap.get<number>('rowsPerPage');
+        return this.stateMap.get('rowsPerPage');
     }
 
     public get page() {
@@ -64,24 +54,21 @@ export class WarixDataSourcePagerOperator {
         this.paging(this.rowsPerPage, value);
     }
     public get page$() {
-        return this.stateMap.get<number>('page');
+        return this.stateMap.get('page');
     }
 
     public get pagerSourceArray() {
         return times(this.pagesCount, i => ({ value: i, display: i + 1 })) as IWarixLocalDataSourcePagerItem[];
     }
     public get pagerSourceArray$() {
-        if (!this.stateMap.has('pagerSourceArray')) {
-            this.stateMap.set('pagerSourceArray', this.pagesCount$.pipe(map(x => times(x, i => ({ value: i, display: i + 1 })))));
-        }
-        return this.stateMap.get<IWarixLocalDataSourcePagerItem[]>('pagerSourceArray');
+        return this.stateMap.get('pagerSourceArray');
     }
 
     public get pagesCount() {
         return this.calculatePagesCount(this.dataLength, this.rowsPerPage);
     }
     public get pagesCount$() {
-        return this.stateMap.get<number>('pagesCount');
+        return this.stateMap.get('pagesCount');
     }
 
     constructor(source: Observable<number>) {
@@ -90,7 +77,19 @@ export class WarixDataSourcePagerOperator {
             page: null,
             rowsPerPage: null
         });
-        this.stateMap = new WarixDataMap().liftFromDataSubject(this.state$);
+        this.stateMap = new WarixDataMap().liftFromDataSubject(this.state$)
+            .define('inFirstPage', page$ => page$.pipe(map(x => (x || 0) === 0), distinctUntilChanged()), [ 'page' ])
+            .define('pagesCount', (dataLength$, rowsPerPage$) => combineLatest([ dataLength$, rowsPerPage$ ]).pipe(
+                map(values => this.calculatePagesCount(values[0], values[1])),
+                distinctUntilChanged()
+            ), [ 'dataLength', 'rowsPerPage' ])
+            .define('inLastPage', (pagesCount$, page$) => combineLatest([
+                pagesCount$.pipe(startWith(this.pagesCount)),
+                page$.pipe(startWith(this.page))
+            ]).pipe(
+                map(x => x[0] - 1 === (x[1] || 0)),
+                distinctUntilChanged()), [ 'pagesCount', 'page' ])
+            .define('pagerSourceArray', pagesCount$ => pagesCount$.pipe(map(x => times(x, i => ({ value: i, display: i + 1 })))), [ 'pagesCount' ]);
         this.terminator$ = new Subject<void>();
 
         source.pipe(distinctUntilChanged(), takeUntil(this.terminator$)).subscribe(
@@ -7,7 +7,7 @@ import { isNotEmptyArray } from './common';
 
 export class WarixDataSourceSortOperator {
     private readonly state$: WarixDataSubject<{ sorting: IWarixArraySortDefinition[], unsort: boolean, multiSort: boolean }>;
-    private readonly stateMap: WarixDataMap;
+    private readonly stateMap: WarixDataMap<{ sorting: IWarixArraySortDefinition[], unsort: boolean, multiSort: boolean }>;
 
     public get allowUnsort() {
         return this.state$.peekKey('unsort');
@@ -16,7 +16,7 @@ export class WarixDataSourceSortOperator {
         this.state$.set('unsort', value);
     }
     public get allowUnsort$() {
-        return this.stateMap.get<boolean>('unsort');
+        return this.stateMap.get('unsort');
     }
 
     public get multiSort() {
@@ -26,7 +26,7 @@ export class WarixDataSourceSortOperator {
         this.state$.set('multiSort', value);
     }
     public get multiSort$() {
-        return this.stateMap.get<boolean>('multiSort');
+        return this.stateMap.get('multiSort');
     }
 
     public get sorting() {
@@ -36,7 +36,7 @@ export class WarixDataSourceSortOperator {
         this.state$.set('sorting', value);
     }
     public get sorting$() {
-        return this.stateMap.get<IWarixArraySortDefinition[]>('sorting');
+        return this.stateMap.get('sorting');
     }
 
     constructor(allowUnsort: boolean, multiSort: boolean) {
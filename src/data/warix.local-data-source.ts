@@ -6,7 +6,7 @@ import {
     IWarixArrayGrouping, IWarixArraySortDefinition, IWarixDataFilterGroup
 } from 'warix-core';
 import { WarixDataMap } from '../warix.data-map';
-import { WarixDataSubject } from '../warix.data-subject';
+import { IWarixDataSubjectOptions, WarixDataSubject } from '../warix.data-subject';
 
 export interface IWarixLocalDataSourceState<T = any> {
     allowUnsort: boolean;
@@ -25,9 +25,21 @@ export interface IWarixLocalDataSourcePagerItem {
     value: number;
 }
 
+interface IWarixLocalDataSourceMap<T = any> extends IWarixLocalDataSourceState<T> {
+    dataLength: number;
+    filterFields: string[];
+    groupingSource: IWarixArrayGrouping<T>[];
+    hasGrouping: boolean;
+    inFirstPage: boolean;
+    inLastPage: boolean;
+    pagesCount: number;
+    pagingSource: IWarixLocalDataSourcePagerItem[];
+    workSource: T[];
+}
+
 export class WarixLocalDataSource<T = any> {
     private readonly state$: WarixDataSubject<IWarixLocalDataSourceState<T>>;
-    private readonly stateMap: WarixDataMap;
+    private readonly stateMap: WarixDataMap<IWarixLocalDataSourceMap<T>>;
 
     public get data() {
         return this.state$.peekKey('data');
@@ -36,17 +48,14 @@ export class WarixLocalDataSource<T = any> {
         this.state$.set('data', value);
     }
     public get data$() {
-        return this.stateMap.get<T[]>('data');
+        return this.stateMap.get('data');
     }
 
     public get dataLength() {
         return (this.data || []).length;
     }
     public get dataLength$() {
-        if (!this.stateMap.has('dataLength')) {
-            this.stateMap.set('dataLength', this.data$.pipe(map(x => (x || []).length), distinctUntilChanged()));
-        }
-        return this.stateMap.get<number>('dataLength');
+        return this.stateMap.get('dataLength');
     }
 
     public get allowUnsort() {
@@ -56,7 +65,7 @@ export class WarixLocalDataSource<T = any> {
         this.state$.set('allowUnsort', value);
     }
     public get allowUnsort$() {
-        return this.stateMap.get<boolean>('allowUnsort');
+        return this.stateMap.get('allowUnsort');
     }
 
     public get filtering() {
@@ -66,17 +75,14 @@ export class WarixLocalDataSource<T = any> {
         this.state$.set('filtering', value);
     }
     public get filtering$() {
-        return this.stateMap.get<IWarixDataFilterGroup>('filtering');
+        return this.stateMap.get('filtering');
     }
 
     public get filterFields() {
         return !isNil(this.filtering) ? groupProperties(this.filtering) : [];
     }
     public get filterFields$() {
-        if (!this.stateMap.has('filterFields')) {
-            this.stateMap.set('filterFields', this.filtering$.pipe(map(x => isNil(x) ? [] : groupProperties(x))));
-        }
-        return this.stateMap.get<string[]>('filterFields');
+        return this.stateMap.get('filterFields');
     }
 
     public get grouping() {
@@ -86,37 +92,28 @@ export class WarixLocalDataSource<T = any> {
         this.state$.set('grouping', value);
     }
     public get grouping$() {
-        return this.stateMap.get<string[]>('grouping');
+        return this.stateMap.get('grouping');
     }
 
     public get hasGrouping() {
         return this.grouping.length > 0;
     }
     public get hasGrouping$() {
-        if (!this.stateMap.has('hasGrouping')) {
-            this.stateMap.set('hasGrouping', this.grouping$.pipe(map(x => x.length > 0), distinctUntilChanged()));
-        }
-        return this.stateMap.get<boolean>('hasGrouping');
+        return this.stateMap.get('hasGrouping');
     }
 
     public get inFirstPage() {
         return (this.page || 0) === 0;
     }
     public get inFirstPage$() {
-        if (!this.stateMap.has('inFirstPage')) {
-            this.stateMap.set('inFirstPage', this.page$.pipe(map(x => (x || 0) === 0), distinctUntilChanged()));
-        }
-        return this.stateMap.get<boolean>('inFirstPage');
+        return this.stateMap.get('inFirstPage');
     }
 
     public get inLastPage() {
         return this.pagesCount - 1 === (this.page || 0);
     }
     public get inLastPage$() {
-        if (!this.stateMap.has('inLastPage')) {
-            this.stateMap.set('inLastPage', combineLatest([ this.pagesCount$, this.page$ ]).pipe(map(x => x[0] - 1 === (x[1] || 0)), distinctUntilChanged()));
-        }
-        return this.stateMap.get<boolean>('inLastPage');
+        return this.stateMap.get('inLastPage');
     }
 
     public get multiSort() {
@@ -126,7 +123,7 @@ export class WarixLocalDataSource<T = any> {
         this.state$.set('multiSort', value);
     }
     public get multiSort$() {
-        return this.stateMap.get<boolean>('multiSort');
+        return this.stateMap.get('multiSort');
     }
 
     public get page() {
@@ -136,20 +133,14 @@ export class WarixLocalDataSource<T = any> {
         this.paging(this.rowsPerPage, value);
     }
     public get page$() {
-        return this.stateMap.get<number>('page');
+        return this.stateMap.get('page');
     }
 
     public get pagesCount() {
         return this.calculatePagesCount(this.dataLength, this.rowsPerPage);
     }
     public get pagesCount$() {
-        if (!this.stateMap.has('pagesCount')) {
-            this.stateMap.set('pagesCount', combineLatest([ this.dataLength$, this.rowsPerPage$ ]).pipe(
-                map(values => this.calculatePagesCount(values[0], values[1] || 0)),
-                distinctUntilChanged()
-            ));
-        }
-        return this.stateMap.get<number>('pagesCount');
+        return this.stateMap.get('pagesCount');
     }
 
     public get rowsPerPage() {
@@ -159,7 +150,7 @@ export class WarixLocalDataSource<T = any> {
         this.paging(value, this.page);
     }
     public get rowsPerPage$() {
-        return this.stateMap.get<number>('rowsPerPage');
+        return this.stateMap.get('rowsPerPage');
     }
 
     public get sorting() {
@@ -169,22 +160,22 @@ export class WarixLocalDataSource<T = any> {
         this.state$.set('sorting', value);
     }
     public get sorting$() {
-        return this.stateMap.get<IWarixArraySortDefinition[]>('sorting');
+        return this.stateMap.get('sorting');
     }
 
     public get workSource$() {
-        return this.stateMap.get<T[]>('workSource');
+        return this.stateMap.get('workSource');
     }
 
     public get groupingSource$() {
-        return this.stateMap.get<IWarixArrayGrouping<T>[]>('groupingSource');
+        return this.stateMap.get('groupingSource');
     }
 
     public get pagingSource$() {
-        return this.stateMap.get<IWarixLocalDataSourcePagerItem[]>('pagingSource');
+        return this.stateMap.get('pagingSource');
     }
 
-    constructor(initial?: Partial<IWarixLocalDataSourceState>) {
+    constructor(initial?: Partial<IWarixLocalDataSourceState>, options?: IWarixDataSubjectOptions<IWarixLocalDataSourceState<T>>) {
         this.state$ = new WarixDataSubject<IWarixLocalDataSourceState<T>>(Object.assign({
             allowUnsort: true,
             data: [],
@@ -194,11 +185,20 @@ export class WarixLocalDataSource<T = any> {
             page: null,
             rowsPerPage: null,
             sorting: []
-        }, initial));
-        this.stateMap = new WarixDataMap().liftFromDataSubject(this.state$);
-        this.stateMap.set('workSource', this.constructWorkSource());
-        this.stateMap.set('groupingSource', this.constructGroupingSource());
-        this.stateMap.set('pagingSource', this.constructPagingSource());
+        }, initial), options);
+        this.stateMap = new WarixDataMap().liftFromDataSubject(this.state$)
+            .define('dataLength', data$ => data$.pipe(map(x => (x || []).length), distinctUntilChanged()), [ 'data' ])
+            .define('filterFields', filtering$ => filtering$.pipe(map(x => isNil(x) ? [] : groupProperties(x))), [ 'filtering' ])
+            .define('hasGrouping', grouping$ => grouping$.pipe(map(x => x.length > 0), distinctUntilChanged()), [ 'grouping' ])
+            .define('inFirstPage', page$ => page$.pipe(map(x => (x || 0) === 0), distinctUntilChanged()), [ 'page' ])
+            .define('pagesCount', (dataLength$, rowsPerPage$) => combineLatest([ dataLength$, rowsPerPage$ ]).pipe(
+                map(values => this.calculatePagesCount(values[0], values[1] || 0)),
+                distinctUntilChanged()
+            ), [ 'dataLength', 'rowsPerPage' ])
+            .define('inLastPage', (pagesCount$, page$) => combineLatest([ pagesCount$, page$ ]).pipe(map(x => x[0] - 1 === (x[1] || 0)), distinctUntilChanged()), [ 'pagesCount', 'page' ])
+            .define('workSource', () => this.constructWorkSource(), [ 'data', 'rowsPerPage', 'page', 'filtering', 'sorting' ])
+            .define('groupingSource', () => this.constructGroupingSource(), [ 'workSource', 'grouping' ])
+            .define('pagingSource', () => this.constructPagingSource(), [ 'pagesCount', 'page' ]);
     }
 
     private calculatePagesCount(dataLength: number, rowsPerPage: number) {
@@ -206,7 +206,7 @@ export class WarixLocalDataSource<T = any> {
     }
 
     private constructGroupingSource() {
-        return combineLatest([ this.stateMap.get<T[]>('workSource'), this.grouping$ ])
+        return combineLatest([ this.stateMap.get('workSource'), this.grouping$ ])
             .pipe(
                 map((values: [ T[], string[] ]) => arrayGroupBy(values[0], ...values[1]))
             );
@@ -265,6 +265,11 @@ export class WarixLocalDataSource<T = any> {
         return this;
     }
 
+    public flush() {
+        this.state$.flush();
+        return this;
+    }
+
     public complete() {
         this.stateMap.complete();
         this.state$.complete();
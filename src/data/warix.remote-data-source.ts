@@ -3,7 +3,7 @@ import { combineLatest, isObservable, of, Observable } from 'rxjs';
 import { debounceTime, distinctUntilChanged, filter, map, take } from 'rxjs/operators';
 import { arrayInsert, arrayPush, arrayRemoveAt, arraySetAt, IWarixArraySortDefinition, IWarixArrayGrouping } from 'warix-core';
 import { WarixDataMap } from '../warix.data-map';
-import { WarixDataSubject } from '../warix.data-subject';
+import { IWarixDataSubjectOptions, WarixDataSubject } from '../warix.data-subject';
 
 export type WarixRemoteDataSourceAcceptSortCallback = (current: IWarixArraySortDefinition[], next: IWarixArraySortDefinition[]) =>
     boolean | Observable<boolean> | IWarixArraySortDefinition[] | Observable<IWarixArraySortDefinition[]>;
@@ -50,9 +50,15 @@ export interface IWarixRemoteDataSourceResult<T = any> {
     page: number;
 }
 
+interface IWarixRemoteDataSourceMap<T = any> extends IWarixRemoteDataSourceState<T> {
+    inFirstPage: boolean;
+    inLastPage: boolean;
+    pagesCount: number;
+}
+
 export class WarixRemoteDataSource<T = any> {
     private readonly state$: WarixDataSubject<IWarixRemoteDataSourceState<T>>;
-    private readonly stateMap: WarixDataMap;
+    private readonly stateMap: WarixDataMap<IWarixRemoteDataSourceMap<T>>;
     private pageIsMuted = false;
 
     public get acceptFilterChange() {
@@ -90,7 +96,7 @@ export class WarixRemoteDataSource<T = any> {
         this.state$.set('allowUnsort', value);
     }
     public get allowUnsort$() {
-        return this.stateMap.get<boolean>('allowUnsort');
+        return this.stateMap.get('allowUnsort');
     }
 
     public get data() {
@@ -100,7 +106,7 @@ export class WarixRemoteDataSource<T = any> {
         this.state$.set('data', value);
     }
     public get data$() {
-        return this.stateMap.get<T[]>('data');
+        return this.stateMap.get('data');
     }
 
     public get dataRequest() {
@@ -110,7 +116,7 @@ export class WarixRemoteDataSource<T = any> {
         this.state$.set('dataRequest', value);
     }
     public get dataRequest$() {
-        return this.stateMap.get<WarixRemoteDataSourceDataCallback<T>>('dataRequest');
+        return this.stateMap.get('dataRequest');
     }
 
     public get filterValues() {
@@ -120,7 +126,7 @@ export class WarixRemoteDataSource<T = any> {
         this.applyFilterChange(value || Object.create(null));
     }
     public get filterValues$() {
-        return this.stateMap.get<{ [ key: string ]: any}>('filterValues');
+        return this.stateMap.get('filterValues');
     }
 
     public get grouping() {
@@ -130,27 +136,21 @@ export class WarixRemoteDataSource<T = any> {
         this.applyGroupChange(value || []);
     }
     public get grouping$() {
-        return this.stateMap.get<string[]>('grouping');
+        return this.stateMap.get('grouping');
     }
 
     public get inFirstPage() {
         return (this.page || 0) === 0;
     }
     public get inFirstPage$() {
-        if (!this.stateMap.has('inFirstPage')) {
-            this.stateMap.set('inFirstPage', this.page$.pipe(map(x => (x || 0) === 0), distinctUntilChanged()));
-        }
-        return this.stateMap.get<boolean>('inFirstPage');
+        return this.stateMap.get('inFirstPage');
     }
 
     public get inLastPage() {
         return this.pagesCount - 1 === (this.page || 0);
     }
     public get inLastPage$() {
-        if (!this.stateMap.has('inLastPage')) {
-            this.stateMap.set('inLastPage', combineLatest([ this.pagesCount$, this.page$ ]).pipe(map(x => x[0] - 1 === (x[1] || 0)), distinctUntilChanged()));
-        }
-        return this.stateMap.get<boolean>('inLastPage');
+        return this.stateMap.get('inLastPage');
     }
 
     public get multiSort() {
@@ -160,7 +160,7 @@ export class WarixRemoteDataSource<T = any> {
         this.state$.set('multiSort', value);
     }
     public get multiSort$() {
-        return this.stateMap.get<boolean>('multiSort');
+        return this.stateMap.get('multiSort');
     }
 
     public get page() {
@@ -170,20 +170,14 @@ export class WarixRemoteDataSource<T = any> {
         this.paging(this.rowsPerPage, value);
     }
     public get page$() {
-        return this.stateMap.get<number>('page');
+        return this.stateMap.get('page');
     }
 
     public get pagesCount() {
         return this.calculatePagesCount(this.totalCount || 0, this.rowsPerPage);
     }
     public get pagesCount$() {
-        if (!this.stateMap.has('pagesCount')) {
-            this.stateMap.set('pagesCount', combineLatest([ this.totalCount$, this.rowsPerPage$ ]).pipe(
-                map(values => this.calculatePagesCount(values[0], values[1] || 0)),
-                distinctUntilChanged()
-            ));
-        }
-        return this.stateMap.get<number>('pagesCount');
+        return this.stateMap.get('pagesCount');
     }
 
     public get rowsPerPage() {
@@ -193,7 +187,7 @@ export class WarixRemoteDataSource<T = any> {
         this.paging(value, this.page);
     }
     public get rowsPerPage$() {
-        return this.stateMap.get<number>('rowsPerPage');
+        return this.stateMap.get('rowsPerPage');
     }
 
     public get sorting() {
@@ -203,7 +197,7 @@ export class WarixRemoteDataSource<T = any> {
         this.applySortChange(value || []);
     }
     public get sorting$() {
-        return this.stateMap.get<IWarixArraySortDefinition[]>('sorting');
+        return this.stateMap.get('sorting');
     }
 
     public get totalCount() {
@@ -213,10 +207,10 @@ export class WarixRemoteDataSource<T = any> {
         this.state$.set('totalCount', value);
     }
     public get totalCount$() {
-        return this.stateMap.get<number>('totalCount');
+        return this.stateMap.get('totalCount');
     }
 
-    constructor(dataRequest: WarixRemoteDataSourceDataCallback<T>, initial?: Partial<IWarixRemoteDataSourceState<T>>) {
+    constructor(dataRequest: WarixRemoteDataSourceDataCallback<T>, initial?: Partial<IWarixRemoteDataSourceState<T>>, options?: IWarixDataSubjectOptions<IWarixRemoteDataSourceState<T>>) {
         this.state$ = new WarixDataSubject<IWarixRemoteDataSourceState<T>>(Object.assign({
             acceptFilterChange: null,
             acceptGroupChange: null,
@@ -234,8 +228,14 @@ export class WarixRemoteDataSource<T = any> {
             totalCount: null
         }, initial, {
             dataRequest
-        }));
-        this.stateMap = new WarixDataMap().liftFromDataSubject(this.state$);
+        }), options);
+        this.stateMap = new WarixDataMap().liftFromDataSubject(this.state$)
+            .define('inFirstPage', page$ => page$.pipe(map(x => (x || 0) === 0), distinctUntilChanged()), [ 'page' ])
+            .define('pagesCount', (totalCount$, rowsPerPage$) => combineLatest([ totalCount$, rowsPerPage$ ]).pipe(
+                map(values => this.calculatePagesCount(values[0], values[1] || 0)),
+                distinctUntilChanged()
+            ), [ 'totalCount', 'rowsPerPage' ])
+            .define('inLastPage', (pagesCount$, page$) => combineLatest([ pagesCount$, page$ ]).pipe(map(x => x[0] - 1 === (x[1] || 0)), distinctUntilChanged()), [ 'pagesCount', 'page' ]);
 
         combineLatest([ this.filterValues$, this.grouping$, this.page$.pipe(filter(x => !this.pageIsMuted)), this.rowsPerPage$, this.sorting$ ])
             .pipe(debounceTime(10))
@@ -437,6 +437,11 @@ export class WarixRemoteDataSource<T = any> {
         }
     }
 
+    public flush() {
+        this.state$.flush();
+        return this;
+    }
+
     public paging(rowsPerPage: number, page: number) {
         const rpp = Math.abs(rowsPerPage || 0);
         const ppp = Math.abs(page || 0);
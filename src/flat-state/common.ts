@@ -0,0 +1,95 @@
+import { get as xget, isNil } from 'lodash';
+
+export const WILDCARD = '*';
+
+export const fnEnsureArray = (a: string | string[]) => Array.isArray(a) ? a : a.split('.');
+
+export const fnToPath = (path: unknown) => fnEnsureArray(path as string | string[]);
+
+export const fnPeekPath = (data: any, path: string[]) => path.length === 0 ? data : xget(data, path);
+
+export const fnExtractPathValues = (data: any, path: string | string[]) => {
+    const results = [];
+    fnEnsureArray(path).forEach((property, index) => {
+        if (index === 0) {
+            results.push({ property, value: data[ property ] });
+        } else {
+            results.push({
+                property,
+                value: isNil(results[ index - 1 ].value) ? undefined : results[ index - 1 ].value[ property ] });
+        }
+    });
+    return [ { property: null, value: data }, ...results ].reverse();
+};
+
+export const fnMutateDeepSet = (data: any, path: string | string[], newValue: any) => {
+    const extraction = fnExtractPathValues(data, path);
+    const toModify = extraction.shift();
+    for (let i = 0; i < extraction.length; i++) {
+        const root = Array.isArray(extraction[i].value) ? [] : Object.create(null);
+        if (i === 0) {
+            extraction[i].value = Object.assign(root, extraction[i].value, { [ toModify.property ]: newValue });
+        } else {
+            extraction[i].value = Object.assign(root, extraction[i].value, { [ extraction[ i - 1].property ]: extraction[i - 1].value });
+        }
+    }
+    return extraction[ extraction.length - 1 ].value;
+};
+
+export const fnMutateDeepDelete = (data: any, path: string[]) => {
+    const property = path[ path.length - 1 ];
+    const parentPath = path.slice(0, -1);
+    const parent = fnPeekPath(data, parentPath);
+    if (path.length === 0 || parent === null || typeof(parent) !== 'object' || !(property in parent) || (Array.isArray(parent) && !/^(0|[1-9][0-9]*)$/.test(property))) {
+        return data;
+    }
+    const copy = Object.assign(Array.isArray(parent) ? [] : Object.create(null), parent);
+    if (Array.isArray(copy)) {
+        copy.splice(parseInt(property), 1);
+    } else {
+        delete copy[ property ];
+    }
+    return parentPath.length === 0 ? copy : fnMutateDeepSet(data, parentPath, copy);
+};
+
+export const fnIsWithinPath = (path: string[], parent: string[]) => parent.length <= path.length && parent.every((property, index) => property === path[ index ]);
+
+export const fnMatchesPattern = (path: string[], pattern: string[]) => {
+    return path.length === pattern.length && pattern.every((property, index) => property === WILDCARD || property === path[ index ]);
+};
+
+export const fnOverlapsPattern = (path: string[], pattern: string[]) => {
+    return pattern.slice(0, path.length).every((property, index) => property === WILDCARD || property === path[ index ]);
+};
+
+/**
+ * Obtains the concrete paths matching the pattern that are affected by a change at the provided path
+ * @param data Root value to expand the wildcards with
+ * @param pattern Path pattern. Use * to match any property
+ * @param changed Changed path
+ */
+export const fnExpandPattern = (data: any, pattern: string[], changed: string[]) => {
+    if (changed.length >= pattern.length) {
+        return fnMatchesPattern(changed.slice(0, pattern.length), pattern) ? [ changed.slice(0, pattern.length) ] : [];
+    }
+    const results: string[][] = [];
+    const walk = (value: any, index: number, current: string[]) => {
+        if (index === pattern.length) {
+            results.push(current);
+            return;
+        }
+        const expected = index < changed.length ? changed[ index ] : pattern[ index ];
+        if (pattern[ index ] !== WILDCARD && pattern[ index ] !== expected) {
+            return;
+        }
+        if (expected === WILDCARD) {
+            if (value !== null && typeof(value) === 'object') {
+                Object.keys(value).forEach(key => walk(value[ key ], index + 1, [ ...current, key ]));
+            }
+        } else {
+            walk(value !== null && value !== undefined ? value[ expected ] : undefined, index + 1, [ ...current, expected ]);
+        }
+    };
+    walk(data, 0, []);
+    return results;
+};
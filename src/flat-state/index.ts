@@ -0,0 +1,11 @@
+export * from './warix.flat-state-action-log';
+export * from './warix.flat-state-draft';
+export * from './warix.flat-state-entities';
+export * from './warix.flat-state-middleware';
+export * from './warix.flat-state-patch';
+export * from './warix.flat-state-persistence';
+export * from './warix.flat-state-slice';
+export * from './warix.flat-state-storage';
+export * from './warix.flat-state-sync';
+export * from './warix.flat-state-types';
+export * from './warix.flat-state-validation';
@@ -0,0 +1,63 @@
+import { uniq } from 'lodash';
+import { BehaviorSubject } from 'rxjs';
+import { warixParse, warixStringify } from './warix.flat-state-storage';
+
+export interface IWarixFlatStateLogEntry {
+    action: string;
+    paths: string[];
+    payload?: any;
+    state: any;
+    timestamp: number;
+}
+
+export interface IWarixFlatStateActionLogOptions {
+    /**
+     * Maximum number of entries to keep. Unlimited by default
+     */
+    limit?: number;
+}
+
+interface IWarixFlatStateActionLogDocument {
+    entries: IWarixFlatStateLogEntry[];
+}
+
+export class WarixFlatStateActionLog {
+    private readonly entriesSource$ = new BehaviorSubject<IWarixFlatStateLogEntry[]>([]);
+    private readonly limit: number;
+
+    public get entries() {
+        return this.entriesSource$.getValue();
+    }
+
+    public get entries$() {
+        return this.entriesSource$.asObservable();
+    }
+
+    constructor(options: IWarixFlatStateActionLogOptions) {
+        this.limit = options.limit || Infinity;
+    }
+
+    public record(action: string, payload: any, paths: string[][], state: any) {
+        const entry: IWarixFlatStateLogEntry = {
+            action,
+            paths: uniq(paths.map(path => path.join('.'))),
+            payload,
+            state,
+            timestamp: Date.now()
+        };
+        const entries = [ ...this.entries, entry ];
+        this.entriesSource$.next(entries.length > this.limit ? entries.slice(entries.length - this.limit) : entries);
+    }
+
+    public export() {
+        return warixStringify({ entries: this.entries } as IWarixFlatStateActionLogDocument);
+    }
+
+    public import(json: string) {
+        this.entriesSource$.next(warixParse<IWarixFlatStateActionLogDocument>(json).entries || []);
+    }
+
+    public complete() {
+        this.entriesSource$.complete();
+    }
+}
@@ -0,0 +1,140 @@
+const DRAFT_STATE = Symbol('warix-draft-state');
+
+interface IWarixDraftState {
+    base: any;
+    copy: any;
+    drafts: Map<PropertyKey, any>;
+    modified: boolean;
+    parent: IWarixDraftState;
+}
+
+const fnIsDraftable = (value: any) => {
+    if (Array.isArray(value)) {
+        return true;
+    }
+    if (value === null || typeof(value) !== 'object') {
+        return false;
+    }
+    const proto = Object.getPrototypeOf(value);
+    return proto === null || proto === Object.prototype;
+};
+
+const fnShallowCopy = (value: any) => Array.isArray(value) ? value.slice(0) : Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+
+const fnLatest = (state: IWarixDraftState) => state.modified ? state.copy : state.base;
+
+const fnMarkModified = (state: IWarixDraftState) => {
+    if (!state.modified) {
+        state.modified = true;
+        state.copy = fnShallowCopy(state.base);
+        if (state.parent) {
+            fnMarkModified(state.parent);
+        }
+    }
+};
+
+const fnCreateDraft = (base: any, parent: IWarixDraftState): any => {
+    const state: IWarixDraftState = { base, copy: null, drafts: new Map(), modified: false, parent };
+    return new Proxy(Array.isArray(base) ? [] : Object.create(null), {
+        get(target, property) {
+            if (property === DRAFT_STATE) {
+                return state;
+            }
+            const value = fnLatest(state)[ property ];
+            if (fnIsDraftable(value) && value === state.base[ property ]) {
+                if (!state.drafts.has(property)) {
+                    state.drafts.set(property, fnCreateDraft(value, state));
+                }
+                return state.drafts.get(property);
+            }
+            return value;
+        },
+        set(target, property, value) {
+            if (!state.modified && state.base[ property ] === value && (value !== undefined || property in state.base)) {
+                return true;
+            }
+            fnMarkModified(state);
+            state.copy[ property ] = value;
+            state.drafts.delete(property);
+            return true;
+        },
+        deleteProperty(target, property) {
+            if (property in fnLatest(state)) {
+                fnMarkModified(state);
+                delete state.copy[ property ];
+                state.drafts.delete(property);
+            }
+            return true;
+        },
+        has(target, property) {
+            return property in fnLatest(state);
+        },
+        ownKeys() {
+            return Reflect.ownKeys(fnLatest(state));
+        },
+        getOwnPropertyDescriptor(target, property) {
+            const latest = fnLatest(state);
+            if (!(property in latest)) {
+                return undefined;
+            }
+            if (Array.isArray(latest) && property === 'length') {
+                return { configurable: false, enumerable: false, value: latest.length, writable: true };
+            }
+            return { configurable: true, enumerable: true, value: latest[ property ], writable: true };
+        }
+    });
+};
+
+const fnFinalize = (value: any, visited = new Set<any>()): any => {
+    const state: IWarixDraftState = value && value[ DRAFT_STATE ];
+    if (!state && (!fnIsDraftable(value) || Object.isFrozen(value))) {
+        return value;
+    }
+    if (state && !state.modified) {
+        return state.base;
+    }
+    const target = state ? state.copy : value;
+    if (visited.has(target)) {
+        return target;
+    }
+    visited.add(target);
+    Object.keys(target).forEach(key => {
+        const current = target[ key ];
+        if (state && current === state.base[ key ] && !state.drafts.has(key)) {
+            return;
+        }
+        const finalized = fnFinalize(state && current === state.base[ key ] ? state.drafts.get(key) : current, visited);
+        if (finalized !== current) {
+            target[ key ] = finalized;
+        }
+    });
+    return target;
+};
+
+/**
+ * Produces a new value by applying the mutations performed by the recipe on a draft of the provided base value.
+ * Unmodified branches are shared with the base value
+ * @param base Base value
+ * @param recipe Function mutating the draft. Returning a value other than undefined replaces the result
+ */
+export const produce = <T>(base: T, recipe: (draft: T) => T | void): T => {
+    if (!fnIsDraftable(base)) {
+        const replaced = recipe(base);
+        return replaced === undefined ? base : replaced as T;
+    }
+    const draft = fnCreateDraft(base, null);
+    const result = recipe(draft);
+    return fnFinalize(result === undefined ? draft : result);
+};
+
+/**
+ * Recursively freezes the provided value. Frozen branches are not traversed again
+ * @param value Value to freeze
+ */
+export const deepFreeze = <T>(value: T): T => {
+    if (fnIsDraftable(value) && !Object.isFrozen(value)) {
+        Object.freeze(value);
+        Object.keys(value).forEach(key => deepFreeze((value as { [ key: string ]: any })[ key ]));
+    }
+    return value;
+};
@@ -0,0 +1,163 @@
+import { Observable } from 'rxjs';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { WarixFlatState } from '../warix.flat-state';
+
+export type WarixEntityId = string | number;
+
+export interface IWarixEntityState<T> {
+    entities: { [ id: string ]: T };
+    ids: WarixEntityId[];
+}
+
+export interface IWarixEntityCollectionOptions<T> {
+    /**
+     * Obtains the id of an entity. Defaults to the id property
+     */
+    selectId?: (entity: T) => WarixEntityId;
+    /**
+     * Comparer used to keep the ids sorted. Insertion order is kept when not provided
+     */
+    sortComparer?: (a: T, b: T) => number;
+}
+
+const fnEmptyEntityState = <T>(): IWarixEntityState<T> => ({ entities: Object.create(null), ids: [] });
+
+/**
+ * Normalized collection of entities stored at a path of a WarixFlatState with the { ids, entities } shape
+ */
+export class WarixFlatStateEntityCollection<T = any> {
+    private readonly selectId: (entity: T) => WarixEntityId;
+    private readonly sortComparer: (a: T, b: T) => number;
+
+    private get current() {
+        return (this.state.peekKey(this.path) || fnEmptyEntityState<T>()) as IWarixEntityState<T>;
+    }
+
+    private get source$() {
+        return (this.state.getIn(this.path) as Observable<IWarixEntityState<T>>).pipe(map(x => x || fnEmptyEntityState<T>()));
+    }
+
+    constructor(private readonly state: WarixFlatState<any>, private readonly path: string[], options?: IWarixEntityCollectionOptions<T>) {
+        this.selectId = (options || {}).selectId || ((entity: any) => entity.id);
+        this.sortComparer = (options || {}).sortComparer;
+    }
+
+    private sortIds(ids: WarixEntityId[], entities: { [ id: string ]: T }) {
+        return this.sortComparer ? ids.slice(0).sort((a, b) => this.sortComparer(entities[ a ], entities[ b ])) : ids;
+    }
+
+    private write(ids: WarixEntityId[], entities: { [ id: string ]: T }, changed: WarixEntityId[], removed: WarixEntityId[]) {
+        const current = this.current;
+        const sorted = this.sortIds(ids, entities);
+        this.state.transaction(s => {
+            if (!this.state.peekKey(this.path)) {
+                s.setIn(this.path, fnEmptyEntityState<T>());
+            }
+            changed.forEach(id => s.setIn([ ...this.path, 'entities', String(id) ], entities[ id ]));
+            removed.forEach(id => s.deleteIn([ ...this.path, 'entities', String(id) ]));
+            if (sorted.length !== current.ids.length || sorted.some((id, index) => id !== current.ids[ index ])) {
+                s.setIn([ ...this.path, 'ids' ], sorted);
+            }
+        });
+        return this;
+    }
+
+    public selectById(id: WarixEntityId) {
+        return this.current.entities[ id ];
+    }
+
+    public selectById$(id: WarixEntityId) {
+        return this.state.getIn([ ...this.path, 'entities', String(id) ]) as Observable<T>;
+    }
+
+    /**
+     * Obtains the collection entities in the ids order
+     */
+    public selectAll() {
+        const current = this.current;
+        return current.ids.map(id => current.entities[ id ]);
+    }
+
+    public selectAll$() {
+        return this.source$.pipe(map(x => x.ids.map(id => x.entities[ id ])));
+    }
+
+    public selectIds() {
+        return this.current.ids;
+    }
+
+    public selectIds$() {
+        return this.source$.pipe(map(x => x.ids), distinctUntilChanged());
+    }
+
+    /**
+     * Adds the provided entities or merges them into the existing ones with the same id
+     * @param entities Entities to upsert
+     */
+    public upsertMany(entities: T[]) {
+        const current = this.current;
+        const merged = Object.assign(Object.create(null), current.entities);
+        const ids = current.ids.slice(0);
+        const changed: WarixEntityId[] = [];
+        entities.forEach(entity => {
+            const id = this.selectId(entity);
+            if (id in merged) {
+                merged[ id ] = Object.assign({}, merged[ id ], entity);
+            } else {
+                merged[ id ] = entity;
+                ids.push(id);
+            }
+            changed.push(id);
+        });
+        return this.write(ids, merged, changed, []);
+    }
+
+    public upsertOne(entity: T) {
+        return this.upsertMany([ entity ]);
+    }
+
+    /**
+     * Replaces all the entities in the collection
+     * @param entities New entities
+     */
+    public setAll(entities: T[]) {
+        const current = this.current;
+        const next = Object.create(null);
+        entities.forEach(entity => next[ this.selectId(entity) ] = entity);
+        return this.write(entities.map(entity => this.selectId(entity)), next, Object.keys(next), current.ids.filter(id => !(id in next)));
+    }
+
+    /**
+     * Merges the provided changes into the entity with the provided id. Ignored if the entity does not exist
+     * @param id Entity id
+     * @param changes Changes to merge
+     */
+    public updateOne(id: WarixEntityId, changes: Partial<T>) {
+        const current = this.current;
+        if (!(id in current.entities)) {
+            return this;
+        }
+        const merged = Object.assign(Object.create(null), current.entities, { [ id ]: Object.assign({}, current.entities[ id ], changes) });
+        return this.write(current.ids, merged, [ id ], []);
+    }
+
+    public removeById(id: WarixEntityId) {
+        return this.removeMany([ id ]);
+    }
+
+    public removeMany(ids: WarixEntityId[]) {
+        const current = this.current;
+        const removed = ids.filter(id => id in current.entities);
+        if (removed.length === 0) {
+            return this;
+        }
+        const keys = removed.map(String);
+        const entities = Object.assign(Object.create(null), current.entities);
+        keys.forEach(key => delete entities[ key ]);
+        return this.write(current.ids.filter(id => !keys.includes(String(id))), entities, [], removed);
+    }
+
+    public removeAll() {
+        return this.removeMany(this.current.ids);
+    }
+}
@@ -0,0 +1,39 @@
+import { Observable } from 'rxjs';
+import { IWarixFlatStateChange, WarixFlatState, WarixFlatStateOperation } from '../warix.flat-state';
+
+export interface IWarixFlatStatePendingWrite {
+    operation: WarixFlatStateOperation;
+    path: string[];
+    previousState: any;
+    remove: boolean;
+    value: any;
+}
+
+export interface IWarixFlatStateMiddlewareContext {
+    /**
+     * State the write is being performed on
+     */
+    readonly state: WarixFlatState<any>;
+    /**
+     * Adds a write to the batch being processed. The write goes through every middleware
+     * @param path Path to the property
+     * @param value Value to assign
+     * @param operation Operation reported for the write. Defaults to setIn
+     */
+    dispatch(path: string | string[], value: any, operation?: WarixFlatStateOperation): void;
+}
+
+export interface IWarixFlatStateMiddleware {
+    /**
+     * Called after the writes have been emitted. Returned Observables and Promises are subscribed to run async side effects, their errors are ignored
+     * @param changes Emitted changes
+     * @param state Emitted state
+     */
+    committed?(changes: IWarixFlatStateChange[], state: any): void | Observable<any> | Promise<any>;
+    /**
+     * Called for every pending write before it is applied. Return nothing to pass it through, a write to change it or null to veto it
+     * @param write Pending write
+     * @param context Middleware context
+     */
+    write?(write: IWarixFlatStatePendingWrite, context: IWarixFlatStateMiddlewareContext): IWarixFlatStatePendingWrite | null | void;
+}
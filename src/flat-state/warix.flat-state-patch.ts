@@ -0,0 +1,217 @@
+import { isEqual, times } from 'lodash';
+import { WarixFlatState } from '../warix.flat-state';
+import { fnMutateDeepDelete, fnMutateDeepSet, fnPeekPath } from './common';
+
+export type WarixJsonPatchOperationType = 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+
+export interface IWarixJsonPatchOperation {
+    from?: string;
+    op: WarixJsonPatchOperationType;
+    path: string;
+    value?: any;
+}
+
+export interface IWarixJsonPatchChange {
+    path: string[];
+    previousValue?: any;
+    remove?: boolean;
+    value: any;
+}
+
+/**
+ * Converts a property path into a JSON pointer (RFC 6901)
+ * @param path Property path
+ */
+export const toJsonPointer = (path: string[]) => path.map(p => `/${ String(p).replace(/~/g, '~0').replace(/\//g, '~1') }`).join('');
+
+/**
+ * Converts a JSON pointer (RFC 6901) into a property path
+ * @param pointer JSON pointer
+ * @throws {InvalidJsonPointer} If the pointer is not empty and does not start with a slash
+ */
+export const fromJsonPointer = (pointer: string) => {
+    if (pointer === '') {
+        return [];
+    }
+    if (pointer.charAt(0) !== '/') {
+        throw new Error(`InvalidJsonPointer. JSON pointer ${ pointer } must start with /`);
+    }
+    return pointer.substring(1).split('/').map(p => p.replace(/~1/g, '/').replace(/~0/g, '~'));
+};
+
+const fnCreateArrayPatch = (pointer: string, previous: any[], current: any[]): IWarixJsonPatchOperation[] => {
+    let start = 0;
+    while (start < previous.length && start < current.length && previous[ start ] === current[ start ]) {
+        start++;
+    }
+    let end = 0;
+    while (end < previous.length - start && end < current.length - start && previous[ previous.length - 1 - end ] === current[ current.length - 1 - end ]) {
+        end++;
+    }
+    const removed = previous.length - start - end;
+    const added = current.length - start - end;
+    if (removed > 0 && added > 0) {
+        return [ { op: 'replace', path: pointer, value: current } ];
+    }
+    return [
+        ...times(removed, () => ({ op: 'remove', path: `${ pointer }/${ start }` }) as IWarixJsonPatchOperation),
+        ...current.slice(start, start + added).map((value, index) => ({ op: 'add', path: `${ pointer }/${ start + index }`, value }) as IWarixJsonPatchOperation)
+    ];
+};
+
+const fnIsAppendable = (array: any[], property: string) => property === String(array.length);
+
+const fnMissingAncestor = (data: any, path: string[]): IWarixJsonPatchOperation => {
+    let node = data;
+    for (let index = 0; index < path.length; index++) {
+        if (node === null || typeof(node) !== 'object') {
+            return { op: 'replace', path: toJsonPointer(path.slice(0, index)) };
+        } else if (!(path[ index ] in node) && Array.isArray(node) && !fnIsAppendable(node, path[ index ])) {
+            return { op: 'replace', path: toJsonPointer(path.slice(0, index)) };
+        } else if (!(path[ index ] in node)) {
+            return index === path.length - 1 ? null : { op: 'add', path: toJsonPointer(path.slice(0, index + 1)) };
+        }
+        node = node[ path[ index ] ];
+    }
+    return null;
+};
+
+/**
+ * Creates the JSON patch document (RFC 6902) describing the provided changes
+ * @param changes Changes applied to the state
+ * @param previousState State the changes were applied to. When provided, writes under missing paths add their first missing parent with the built value
+ */
+export const createJsonPatch = (changes: IWarixJsonPatchChange[], previousState?: any) => {
+    let state = previousState;
+    return changes.reduce((ops, change) => {
+        const pointer = toJsonPointer(change.path);
+        const before = state;
+        if (previousState !== undefined) {
+            state = change.remove ? fnMutateDeepDelete(state, change.path) : change.path.length === 0 ? change.value : fnMutateDeepSet(state, change.path, change.value);
+        }
+        const ancestor = previousState !== undefined && !change.remove ? fnMissingAncestor(before, change.path) : null;
+        if (ancestor) {
+            return [ ...ops, Object.assign(ancestor, { value: fnPeekPath(state, fromJsonPointer(ancestor.path)) }) ];
+        } else if (change.previousValue === change.value && !change.remove) {
+            return ops;
+        } else if (change.value === undefined && !change.remove && previousState !== undefined && Array.isArray(fnPeekPath(before, change.path.slice(0, -1)))) {
+            return [ ...ops, { op: 'replace', path: pointer, value: null } as IWarixJsonPatchOperation ];
+        } else if (change.remove || change.value === undefined) {
+            return change.previousValue === undefined ? ops : [ ...ops, { op: 'remove', path: pointer } as IWarixJsonPatchOperation ];
+        } else if (change.previousValue === undefined) {
+            return [ ...ops, { op: 'add', path: pointer, value: change.value } as IWarixJsonPatchOperation ];
+        } else if (Array.isArray(change.previousValue) && Array.isArray(change.value)) {
+            return [ ...ops, ...fnCreateArrayPatch(pointer, change.previousValue, change.value) ];
+        }
+        return [ ...ops, { op: 'replace', path: pointer, value: change.value } as IWarixJsonPatchOperation ];
+    }, [] as IWarixJsonPatchOperation[]);
+};
+
+const fnResolve = (state: WarixFlatState<any>, path: string[]) => path.length === 0 ? state.peek() : state.peekKey(path);
+
+const fnExists = (state: WarixFlatState<any>, path: string[]) => {
+    if (path.length === 0) {
+        return true;
+    }
+    const parent = fnResolve(state, path.slice(0, -1));
+    return parent !== null && typeof(parent) === 'object' && path[ path.length - 1 ] in parent;
+};
+
+const fnArrayIndex = (array: any[], property: string, allowEnd: boolean) => {
+    const index = property === '-' && allowEnd ? array.length : /^(0|[1-9][0-9]*)$/.test(property) ? parseInt(property) : -1;
+    if (index < 0 || index > (allowEnd ? array.length : array.length - 1)) {
+        throw new Error(`InvalidPatchOperation. Index ${ property } is out of the array bounds`);
+    }
+    return index;
+};
+
+const fnAdd = (state: WarixFlatState<any>, path: string[], value: any) => {
+    if (path.length === 0) {
+        state.set(value);
+        return;
+    }
+    const parentPath = path.slice(0, -1);
+    const parent = fnResolve(state, parentPath);
+    if (Array.isArray(parent)) {
+        state.arrayInsert(parentPath, fnArrayIndex(parent, path[ path.length - 1 ], true), value);
+    } else if (parent !== null && typeof(parent) === 'object') {
+        state.setIn(path, value);
+    } else {
+        throw new Error(`InvalidPatchOperation. Path ${ toJsonPointer(parentPath) } does not exist`);
+    }
+};
+
+const fnRemove = (state: WarixFlatState<any>, path: string[]) => {
+    if (!fnExists(state, path) || path.length === 0) {
+        throw new Error(`InvalidPatchOperation. Path ${ toJsonPointer(path) } does not exist`);
+    }
+    const parentPath = path.slice(0, -1);
+    const parent = fnResolve(state, parentPath);
+    if (Array.isArray(parent)) {
+        state.arrayRemoveAt(parentPath, fnArrayIndex(parent, path[ path.length - 1 ], false));
+    } else {
+        state.deleteIn(path);
+    }
+};
+
+const fnReplace = (state: WarixFlatState<any>, path: string[], value: any) => {
+    if (!fnExists(state, path)) {
+        throw new Error(`InvalidPatchOperation. Path ${ toJsonPointer(path) } does not exist`);
+    }
+    if (path.length === 0) {
+        state.set(value);
+    } else {
+        state.setIn(path, value);
+    }
+};
+
+/**
+ * Applies a JSON patch document (RFC 6902) to the provided state as a single transaction
+ * @param state State to apply the patch to
+ * @param ops Patch operations
+ * @throws {WarixJsonPatchTestFailed} If a test operation fails. No operation is applied
+ * @throws {InvalidPatchOperation} If an operation references a path that does not exist. No operation is applied
+ */
+export const applyJsonPatch = (state: WarixFlatState<any>, ops: IWarixJsonPatchOperation[]) => {
+    return state.transaction(s => {
+        ops.forEach(op => {
+            const path = fromJsonPointer(op.path);
+            switch (op.op) {
+                case 'add':
+                    fnAdd(s, path, op.value);
+                    break;
+                case 'remove':
+                    fnRemove(s, path);
+                    break;
+                case 'replace':
+                    fnReplace(s, path, op.value);
+                    break;
+                case 'move': {
+                    const from = fromJsonPointer(op.from);
+                    if (!fnExists(s, from)) {
+                        throw new Error(`InvalidPatchOperation. Path ${ op.from } does not exist`);
+                    }
+                    const value = fnResolve(s, from);
+                    fnRemove(s, from);
+                    fnAdd(s, path, value);
+                    break;
+                }
+                case 'copy': {
+                    const from = fromJsonPointer(op.from);
+                    if (!fnExists(s, from)) {
+                        throw new Error(`InvalidPatchOperation. Path ${ op.from } does not exist`);
+                    }
+                    fnAdd(s, path, fnResolve(s, from));
+                    break;
+                }
+                case 'test':
+                    if (!isEqual(fnResolve(s, path), op.value)) {
+                        throw new Error(`WarixJsonPatchTestFailed. Value at ${ op.path } does not match the expected value`);
+                    }
+                    break;
+                default:
+                    throw new Error(`InvalidPatchOperation. Unknown operation ${ op.op }`);
+            }
+        });
+    });
+};
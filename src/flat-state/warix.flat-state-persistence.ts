@@ -0,0 +1,194 @@
+import { cloneDeep, get as xget, has, isNil, isPlainObject, set, unset } from 'lodash';
+import { BehaviorSubject, ReplaySubject, Subscription } from 'rxjs';
+import { debounceTime, filter, switchMap, take } from 'rxjs/operators';
+import { WarixFlatState } from '../warix.flat-state';
+import { fnEnsureArray, fnMutateDeepSet } from './common';
+import { fromStorageResult, warixParse, warixStringify, IWarixFlatStateStorageAdapter } from './warix.flat-state-storage';
+
+export type WarixFlatStateMigration = (state: any) => any;
+
+export interface IWarixFlatStatePersistenceOptions {
+    /**
+     * Storage adapter used to read and write the persisted state
+     */
+    adapter: IWarixFlatStateStorageAdapter;
+    /**
+     * Milliseconds to wait after the last change before writing to the storage. Defaults to 0
+     */
+    debounce?: number;
+    /**
+     * Paths that are never persisted
+     */
+    exclude?: (string | string[])[];
+    /**
+     * Paths to persist. The whole state is persisted when not provided
+     */
+    include?: (string | string[])[];
+    /**
+     * Storage key
+     */
+    key: string;
+    /**
+     * Migrations keyed by the schema version they upgrade the persisted state to
+     */
+    migrations?: { [ version: number ]: WarixFlatStateMigration };
+    /**
+     * Current schema version. Defaults to 0
+     */
+    version?: number;
+}
+
+interface IWarixFlatStatePersistedDocument {
+    state: any;
+    version: number;
+}
+
+const fnMergeLoaded = (current: any, loaded: any): any => {
+    if (!isPlainObject(current) || !isPlainObject(loaded)) {
+        return loaded;
+    }
+    return Object.keys(loaded).reduce((merged, key) => Object.assign(merged, { [ key ]: fnMergeLoaded(current[ key ], loaded[ key ]) }), Object.assign(Object.create(null), current));
+};
+
+export class WarixFlatStatePersistence {
+    private readonly errorsSource$ = new ReplaySubject<any>(1);
+    private readonly hydratedSource$ = new BehaviorSubject<boolean>(false);
+    private readonly subscription = new Subscription();
+    private readonly version: number;
+
+    /**
+     * Observable emitting the errors raised while reading or writing the storage. Replays the latest error to new subscribers
+     */
+    public get errors$() {
+        return this.errorsSource$.asObservable();
+    }
+
+    /**
+     * Gets whether the persisted state has been loaded into the state. Remains false when loading fails so the stored state is never overwritten
+     */
+    public get hydrated() {
+        return this.hydratedSource$.getValue();
+    }
+    public get hydrated$() {
+        return this.hydratedSource$.asObservable();
+    }
+
+    constructor(private readonly state: WarixFlatState<any>, private readonly options: IWarixFlatStatePersistenceOptions) {
+        this.version = options.version || 0;
+        this.subscription.add(
+            fromStorageResult(options.adapter.getItem(options.key)).pipe(take(1)).subscribe(
+                text => this.hydrate(text),
+                error => this.fail(error)
+            )
+        );
+        this.subscription.add(
+            this.hydratedSource$.pipe(
+                filter(x => x),
+                take(1),
+                switchMap(() => this.state.source$),
+                debounceTime(options.debounce || 0)
+            ).subscribe(() => this.flush())
+        );
+    }
+
+    private fail(error: any) {
+        this.errorsSource$.next(error);
+    }
+
+    private hydrate(text: string) {
+        try {
+            if (!isNil(text)) {
+                const document = warixParse<IWarixFlatStatePersistedDocument>(text);
+                if ((document.version || 0) > this.version) {
+                    throw new Error(`InvalidPersistedVersion. The persisted version ${ document.version } is newer than the current version ${ this.version }`);
+                }
+                this.load(this.migrate(document));
+            }
+        } catch (e) {
+            this.fail(e);
+            return;
+        }
+        this.hydratedSource$.next(true);
+    }
+
+    private load(value: any) {
+        if (isNil(value)) {
+            return;
+        }
+        const current = this.state.peek();
+        const merged = (this.options.exclude || []).map(fnEnsureArray).filter(path => has(current, path)).reduce(
+            (result, path) => fnMutateDeepSet(result, path, xget(current, path)),
+            fnMergeLoaded(current, value)
+        );
+        this.state.transaction(s => {
+            if (this.options.include) {
+                this.options.include.map(fnEnsureArray).filter(path => has(value, path)).forEach(path => s.setIn(path, xget(merged, path)));
+            } else {
+                s.patch(merged);
+            }
+        });
+    }
+
+    private migrate(document: IWarixFlatStatePersistedDocument) {
+        const migrations = this.options.migrations || {};
+        let value = document.state;
+        for (let version = (document.version || 0) + 1; version <= this.version; version++) {
+            if (migrations[ version ]) {
+                value = migrations[ version ](value);
+            }
+        }
+        return value;
+    }
+
+    private select() {
+        const current = this.state.peek();
+        if (!this.options.include && !this.options.exclude) {
+            return current;
+        }
+        const selected = this.options.include ? Object.create(null) : cloneDeep(current);
+        if (this.options.include) {
+            this.options.include.map(fnEnsureArray).filter(path => has(current, path)).forEach(path => set(selected, path, cloneDeep(xget(current, path))));
+        }
+        (this.options.exclude || []).map(fnEnsureArray).forEach(path => unset(selected, path));
+        return selected;
+    }
+
+    /**
+     * Writes the current state to the storage immediately. Ignored until the persisted state has been loaded
+     */
+    public flush() {
+        if (!this.hydrated) {
+            return this;
+        }
+        try {
+            const document: IWarixFlatStatePersistedDocument = { state: this.select(), version: this.version };
+            fromStorageResult(this.options.adapter.setItem(this.options.key, warixStringify(document))).pipe(take(1)).subscribe(
+                () => { },
+                error => this.errorsSource$.next(error)
+            );
+        } catch (e) {
+            this.errorsSource$.next(e);
+        }
+        return this;
+    }
+
+    /**
+     * Removes the persisted state from the storage
+     */
+    public clear() {
+        fromStorageResult(this.options.adapter.removeItem(this.options.key)).pipe(take(1)).subscribe(
+            () => { },
+            error => this.errorsSource$.next(error)
+        );
+        return this;
+    }
+
+    /**
+     * Stops persisting the state
+     */
+    public complete() {
+        this.subscription.unsubscribe();
+        this.errorsSource$.complete();
+        this.hydratedSource$.complete();
+    }
+}
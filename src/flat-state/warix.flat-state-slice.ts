@@ -0,0 +1,139 @@
+import { Observable } from 'rxjs';
+import { WarixFlatState } from '../warix.flat-state';
+import { fnEnsureArray } from './common';
+import { WarixStateArrayItem, WarixStatePath, WarixStatePathValue, WarixStateResult } from './warix.flat-state-types';
+
+/**
+ * Scoped view of a WarixFlatState where every path is relative to the slice root
+ */
+export class WarixFlatStateSlice<S = any> {
+    /**
+     * Gets the Observable to the slice root. Emits only when the slice sub-tree changes
+     */
+    public get source$() {
+        return this.parent.getIn(this.root) as Observable<S>;
+    }
+
+    /**
+     * Gets the absolute path of the slice root in the parent state
+     */
+    public get path() {
+        return this.root.slice(0);
+    }
+
+    constructor(private readonly parent: WarixFlatState<any>, private readonly root: string[]) {
+    }
+
+    private resolve(path: unknown) {
+        return [ ...this.root, ...fnEnsureArray(path as string | string[]) ];
+    }
+
+    /**
+     * Obtains a nested slice. The provided path is relative to this slice root
+     * @param path Path to the nested slice root
+     */
+    public slice<P extends WarixStatePath<S>>(path: P) {
+        return new WarixFlatStateSlice<WarixStatePathValue<S, P>>(this.parent, this.resolve(path));
+    }
+
+    /**
+     * Runs the provided function as an atomic transaction in the parent state
+     * @param fn Function performing the writes
+     */
+    public transaction(fn: (slice: this) => void) {
+        this.parent.transaction(() => fn(this));
+        return this;
+    }
+
+    public peek() {
+        return this.parent.peekKey(this.root) as S;
+    }
+
+    public set(value: S) {
+        this.parent.setIn(this.root, value);
+        return this;
+    }
+
+    public patch(value: Partial<S>) {
+        this.parent.patchIn(this.root, value);
+        return this;
+    }
+
+    public getIn<T = never, P extends WarixStatePath<S> = WarixStatePath<S>>(path: P) {
+        return this.parent.getIn(this.resolve(path)) as Observable<WarixStateResult<T, S, P>>;
+    }
+
+    public setIn<P extends WarixStatePath<S>>(path: P, value: WarixStatePathValue<S, P>) {
+        this.parent.setIn(this.resolve(path), value);
+        return this;
+    }
+
+    public deleteIn<P extends WarixStatePath<S>>(path: P) {
+        this.parent.deleteIn(this.resolve(path));
+        return this;
+    }
+
+    public peekKey<T = never, P extends WarixStatePath<S> = WarixStatePath<S>>(path: P) {
+        return this.parent.peekKey(this.resolve(path)) as WarixStateResult<T, S, P>;
+    }
+
+    public apply<T = never, P extends WarixStatePath<S> = WarixStatePath<S>>(path: P, action: (currentValue: WarixStateResult<T, S, P>) => WarixStateResult<T, S, P>) {
+        this.parent.apply(this.resolve(path), action as (currentValue: any) => any);
+        return this;
+    }
+
+    public arrayPush<P extends WarixStatePath<S>>(path: P, ...items: WarixStateArrayItem<S, P>[]) {
+        this.parent.arrayPush(this.resolve(path), ...items);
+        return this;
+    }
+
+    public arrayPop<P extends WarixStatePath<S>>(path: P) {
+        this.parent.arrayPop(this.resolve(path));
+        return this;
+    }
+
+    public arrayShift<P extends WarixStatePath<S>>(path: P) {
+        this.parent.arrayShift(this.resolve(path));
+        return this;
+    }
+
+    public arrayUnshift<P extends WarixStatePath<S>>(path: P, ...items: WarixStateArrayItem<S, P>[]) {
+        this.parent.arrayUnshift(this.resolve(path), ...items);
+        return this;
+    }
+
+    public arrayInsert<P extends WarixStatePath<S>>(path: P, index: number, ...items: WarixStateArrayItem<S, P>[]) {
+        this.parent.arrayInsert(this.resolve(path), index, ...items);
+        return this;
+    }
+
+    public arrayRemoveAt<P extends WarixStatePath<S>>(path: P, index: number, deleteCount = 1) {
+        this.parent.arrayRemoveAt(this.resolve(path), index, deleteCount);
+        return this;
+    }
+
+    public arrayRemove<P extends WarixStatePath<S>>(path: P, ...items: WarixStateArrayItem<S, P>[]) {
+        this.parent.arrayRemove(this.resolve(path), ...items);
+        return this;
+    }
+
+    public arrayRemoveWhere<P extends WarixStatePath<S>>(path: P, condition: (value: WarixStateArrayItem<S, P>, index: number, array: WarixStateArrayItem<S, P>[]) => boolean) {
+        this.parent.arrayRemoveWhere(this.resolve(path), condition);
+        return this;
+    }
+
+    public arrayReverse<P extends WarixStatePath<S>>(path: P) {
+        this.parent.arrayReverse(this.resolve(path));
+        return this;
+    }
+
+    public arrayDistinct<P extends WarixStatePath<S>>(path: P) {
+        this.parent.arrayDistinct(this.resolve(path));
+        return this;
+    }
+
+    public arrayShuffle<P extends WarixStatePath<S>>(path: P) {
+        this.parent.arrayShuffle(this.resolve(path));
+        return this;
+    }
+}
@@ -0,0 +1,122 @@
+import { from, isObservable, of, Observable } from 'rxjs';
+
+export type WarixStorageResult<T> = T | Observable<T> | Promise<T>;
+
+export interface IWarixFlatStateStorageAdapter {
+    getItem(key: string): WarixStorageResult<string>;
+    removeItem(key: string): WarixStorageResult<void>;
+    setItem(key: string, value: string): WarixStorageResult<void>;
+}
+
+export interface IWarixStorageLike {
+    getItem(key: string): string | null;
+    removeItem(key: string): void;
+    setItem(key: string, value: string): void;
+}
+
+const TYPE_KEY = '$warixType';
+
+/**
+ * Converts the result of a storage adapter call into an Observable
+ * @param result Storage adapter result
+ */
+export const fromStorageResult = <T>(result: WarixStorageResult<T>): Observable<T> => {
+    return isObservable(result) ? result : result instanceof Promise ? from(result) : of(result);
+};
+
+/**
+ * Serializes the provided value to JSON keeping Date, Map and Set instances
+ * @param value Value to serialize
+ */
+export const warixStringify = (value: any) => {
+    return JSON.stringify(value, function(key, current) {
+        const raw = this[ key ];
+        if (raw instanceof Date) {
+            return { [ TYPE_KEY ]: 'Date', value: raw.toISOString() };
+        } else if (raw instanceof Map) {
+            return { [ TYPE_KEY ]: 'Map', value: Array.from(raw.entries()) };
+        } else if (raw instanceof Set) {
+            return { [ TYPE_KEY ]: 'Set', value: Array.from(raw.values()) };
+        }
+        return current;
+    });
+};
+
+/**
+ * Deserializes a JSON string generated by warixStringify restoring Date, Map and Set instances
+ * @param text JSON string
+ */
+export const warixParse = <T = any>(text: string) => {
+    return JSON.parse(text, (key, value) => {
+        if (value !== null && typeof(value) === 'object' && TYPE_KEY in value) {
+            switch (value[ TYPE_KEY ]) {
+                case 'Date':
+                    return new Date(value.value);
+                case 'Map':
+                    return new Map(value.value);
+                case 'Set':
+                    return new Set(value.value);
+            }
+        }
+        return value;
+    }) as T;
+};
+
+/**
+ * Storage adapter keeping the items in memory
+ */
+export class WarixMemoryStorageAdapter implements IWarixFlatStateStorageAdapter {
+    private readonly items = new Map<string, string>();
+
+    public getItem(key: string) {
+        return this.items.has(key) ? this.items.get(key) : null;
+    }
+
+    public removeItem(key: string) {
+        this.items.delete(key);
+    }
+
+    public setItem(key: string, value: string) {
+        this.items.set(key, value);
+    }
+}
+
+/**
+ * Storage adapter for Storage compatible objects such as localStorage and sessionStorage
+ */
+export class WarixWebStorageAdapter implements IWarixFlatStateStorageAdapter {
+    constructor(private readonly storage: IWarixStorageLike) {
+    }
+
+    public getItem(key: string) {
+        return this.storage.getItem(key);
+    }
+
+    public removeItem(key: string) {
+        this.storage.removeItem(key);
+    }
+
+    public setItem(key: string, value: string) {
+        this.storage.setItem(key, value);
+    }
+}
+
+/**
+ * Storage adapter delegating to custom asynchronous handlers returning Observables or Promises
+ */
+export class WarixAsyncStorageAdapter implements IWarixFlatStateStorageAdapter {
+    constructor(private readonly handlers: IWarixFlatStateStorageAdapter) {
+    }
+
+    public getItem(key: string) {
+        return this.handlers.getItem(key);
+    }
+
+    public removeItem(key: string) {
+        return this.handlers.removeItem(key);
+    }
+
+    public setItem(key: string, value: string) {
+        return this.handlers.setItem(key, value);
+    }
+}
@@ -0,0 +1,214 @@
+import { Observable, Subject, Subscription } from 'rxjs';
+import { filter } from 'rxjs/operators';
+import { WarixFlatState } from '../warix.flat-state';
+import { fnEnsureArray, fnIsWithinPath, fnPeekPath } from './common';
+
+export interface IWarixFlatStateSyncMessage {
+    clock: number;
+    origin: string;
+    path: string[];
+    remove?: boolean;
+    value: any;
+}
+
+export interface IWarixFlatStateSyncTransport {
+    readonly messages$: Observable<IWarixFlatStateSyncMessage>;
+    close(): void;
+    send(message: IWarixFlatStateSyncMessage): void;
+}
+
+export interface IWarixMessagePort {
+    addEventListener(type: 'message', listener: (event: { data: any }) => void): void;
+    close(): void;
+    postMessage(message: any): void;
+    removeEventListener(type: 'message', listener: (event: { data: any }) => void): void;
+}
+
+export type WarixFlatStateSyncMerge = (localValue: any, remoteValue: any, path: string[]) => any;
+
+export interface IWarixFlatStateSyncOptions {
+    /**
+     * Conflict resolution. Defaults to last-writer-wins using a logical clock
+     */
+    conflict?: 'last-writer-wins' | WarixFlatStateSyncMerge;
+    /**
+     * Paths to mirror
+     */
+    paths: (string | string[])[];
+    /**
+     * Transport used to exchange the changes
+     */
+    transport: IWarixFlatStateSyncTransport;
+}
+
+interface IWarixFlatStateSyncStamp {
+    clock: number;
+    origin: string;
+    path: string[];
+}
+
+interface IWarixInProcessChannel {
+    source$: Subject<IWarixFlatStateSyncMessage>;
+    transports: number;
+}
+
+const channels = new Map<string, IWarixInProcessChannel>();
+
+/**
+ * Sync transport over a BroadcastChannel compatible message port
+ */
+export class WarixBroadcastChannelTransport implements IWarixFlatStateSyncTransport {
+    private readonly messagesSource$ = new Subject<IWarixFlatStateSyncMessage>();
+    private readonly listener = (event: { data: any }) => this.messagesSource$.next(event.data);
+
+    public get messages$() {
+        return this.messagesSource$.asObservable();
+    }
+
+    constructor(private readonly port: IWarixMessagePort) {
+        this.port.addEventListener('message', this.listener);
+    }
+
+    public close() {
+        this.port.removeEventListener('message', this.listener);
+        this.port.close();
+        this.messagesSource$.complete();
+    }
+
+    public send(message: IWarixFlatStateSyncMessage) {
+        this.port.postMessage(message);
+    }
+}
+
+/**
+ * Sync transport delivering the messages to the other transports created in the same context with the same channel name
+ */
+export class WarixInProcessTransport implements IWarixFlatStateSyncTransport {
+    private readonly channel: IWarixInProcessChannel;
+    private readonly messagesSource$ = new Subject<IWarixFlatStateSyncMessage>();
+    private readonly sent = new WeakSet<IWarixFlatStateSyncMessage>();
+    private readonly subscription: Subscription;
+
+    public get messages$() {
+        return this.messagesSource$.asObservable();
+    }
+
+    constructor(private readonly channelName: string) {
+        if (!channels.has(channelName)) {
+            channels.set(channelName, { source$: new Subject<IWarixFlatStateSyncMessage>(), transports: 0 });
+        }
+        this.channel = channels.get(channelName);
+        this.channel.transports++;
+        this.subscription = this.channel.source$.pipe(filter(message => !this.sent.has(message))).subscribe(message => this.messagesSource$.next(message));
+    }
+
+    /**
+     * Stops delivering messages. The channel is released once all of its transports are closed
+     */
+    public close() {
+        if (this.subscription.closed) {
+            return;
+        }
+        this.subscription.unsubscribe();
+        this.messagesSource$.complete();
+        this.channel.transports--;
+        if (this.channel.transports === 0) {
+            channels.delete(this.channelName);
+            this.channel.source$.complete();
+        }
+    }
+
+    public send(message: IWarixFlatStateSyncMessage) {
+        if (this.subscription.closed) {
+            return;
+        }
+        this.sent.add(message);
+        this.channel.source$.next(message);
+    }
+}
+
+/**
+ * Mirrors the provided paths of a WarixFlatState with other instances through a transport
+ */
+export class WarixFlatStateSync {
+    private readonly id = Math.random().toString(36).substring(2);
+    private readonly paths: string[][];
+    private readonly stamps = new Map<string, IWarixFlatStateSyncStamp>();
+    private readonly subscription = new Subscription();
+    private applyingRemote = false;
+    private clock = 0;
+
+    constructor(private readonly state: WarixFlatState<any>, private readonly options: IWarixFlatStateSyncOptions) {
+        this.paths = options.paths.map(fnEnsureArray);
+        this.subscription.add(this.state.changes$.pipe(filter(() => !this.applyingRemote)).subscribe(change => {
+            this.paths.forEach(path => {
+                if (fnIsWithinPath(change.path, path)) {
+                    this.send(change.path, change.currentValue, change.operation === 'deleteIn');
+                } else if (fnIsWithinPath(path, change.path)) {
+                    this.send(path, fnPeekPath(this.state.peek(), path), false);
+                }
+            });
+        }));
+        this.subscription.add(options.transport.messages$.pipe(filter(message => message.origin !== this.id)).subscribe(message => this.receive(message)));
+    }
+
+    private isNewer(message: IWarixFlatStateSyncMessage, stamp: IWarixFlatStateSyncStamp) {
+        return !stamp || message.clock > stamp.clock || (message.clock === stamp.clock && message.origin > stamp.origin);
+    }
+
+    private overlapping(path: string[]) {
+        return Array.from(this.stamps.values()).filter(stamp => fnIsWithinPath(stamp.path, path) || fnIsWithinPath(path, stamp.path));
+    }
+
+    private stamp(path: string[], clock: number, origin: string) {
+        this.stamps.forEach((stamp, key) => {
+            if (fnIsWithinPath(stamp.path, path)) {
+                this.stamps.delete(key);
+            }
+        });
+        this.stamps.set(path.join('.'), { clock, origin, path });
+    }
+
+    private receive(message: IWarixFlatStateSyncMessage) {
+        if (!this.paths.some(path => fnIsWithinPath(message.path, path))) {
+            return;
+        }
+        const conflict = this.options.conflict || 'last-writer-wins';
+        this.clock = Math.max(this.clock, message.clock) + 1;
+
+        let value = message.value;
+        if (conflict === 'last-writer-wins') {
+            if (!this.overlapping(message.path).every(stamp => this.isNewer(message, stamp))) {
+                return;
+            }
+        } else {
+            value = conflict(fnPeekPath(this.state.peek(), message.path), message.value, message.path);
+        }
+        this.stamp(message.path, message.clock, message.origin);
+
+        this.applyingRemote = true;
+        try {
+            if (message.remove) {
+                this.state.deleteIn(message.path);
+            } else {
+                this.state.setIn(message.path, value);
+            }
+        } finally {
+            this.applyingRemote = false;
+        }
+    }
+
+    private send(path: string[], value: any, remove: boolean) {
+        this.clock++;
+        this.stamp(path, this.clock, this.id);
+        this.options.transport.send({ clock: this.clock, origin: this.id, path, remove, value });
+    }
+
+    /**
+     * Stops mirroring the state and closes the transport
+     */
+    public complete() {
+        this.subscription.unsubscribe();
+        this.options.transport.close();
+    }
+}
@@ -0,0 +1,59 @@
+type Depth = [ never, 0, 1, 2, 3, 4, 5, 6, 7 ];
+
+type IsAny<T> = 0 extends (1 & T) ? true : false;
+
+type Leaf = string | number | boolean | bigint | symbol | null | undefined | Date | RegExp | Function | Map<any, any> | Set<any>;
+
+type Keys<S> = keyof NonNullable<S> & string;
+
+/**
+ * Dotted string paths of the provided state shape, e.g. 'items.0.quantity'. Only the first four properties are checked, deeper properties accept any name
+ */
+export type WarixStatePathString<S, D extends number = 3> =
+    [ D ] extends [ never ] ? string :
+    IsAny<S> extends true ? string :
+    NonNullable<S> extends Leaf ? never :
+    NonNullable<S> extends readonly (infer E)[] ? `${ number }` | `${ number }.${ WarixStatePathString<E, Depth[ D ]> }` :
+    { [ K in Keys<S> ]: K | `${ K }.${ WarixStatePathString<NonNullable<S>[ K ], Depth[ D ]> }` }[ Keys<S> ];
+
+/**
+ * Tuple paths of the provided state shape, e.g. [ 'items', '0', 'quantity' ]. Only the first four properties are checked, deeper properties accept any name
+ */
+export type WarixStatePathTuple<S, D extends number = 3> =
+    [ D ] extends [ never ] ? string[] :
+    IsAny<S> extends true ? string[] :
+    NonNullable<S> extends Leaf ? never :
+    NonNullable<S> extends readonly (infer E)[] ? [ `${ number }` ] | [ `${ number }`, ...WarixStatePathTuple<E, Depth[ D ]> ] :
+    { [ K in Keys<S> ]: [ K ] | [ K, ...WarixStatePathTuple<NonNullable<S>[ K ], Depth[ D ]> ] }[ Keys<S> ];
+
+/**
+ * Paths of the provided state shape. States with a string index signature accept any path
+ */
+export type WarixStatePath<S> = string extends keyof S ? string | string[] : WarixStatePathString<S> | WarixStatePathTuple<S>;
+
+type PropertyValue<S, K> =
+    IsAny<S> extends true ? any :
+    NonNullable<S> extends readonly (infer E)[] ? (K extends `${ number }` ? E : any) :
+    K extends keyof NonNullable<S> ? NonNullable<S>[ K ] : any;
+
+/**
+ * Value type at the provided path of the state shape
+ */
+export type WarixStatePathValue<S, P> =
+    IsAny<S> extends true ? any :
+    P extends readonly [] ? S :
+    P extends readonly [ infer Head, ...infer Tail ] ? WarixStatePathValue<PropertyValue<S, Head>, Tail> :
+    P extends `${ infer K }.${ infer R }` ? WarixStatePathValue<PropertyValue<S, K>, R> :
+    P extends string ? PropertyValue<S, P> :
+    any;
+
+/**
+ * Item type of the array at the provided path of the state shape
+ */
+export type WarixStateArrayItem<S, P> = WarixStatePathValue<S, P> extends infer A ?
+    IsAny<A> extends true ? any : NonNullable<A> extends readonly (infer E)[] ? E : never : never;
+
+/**
+ * Resolves to T when provided, otherwise to the value type at the provided path of the state shape
+ */
+export type WarixStateResult<T, S, P> = [ T ] extends [ never ] ? WarixStatePathValue<S, P> : T;
@@ -0,0 +1,189 @@
+import { isEqual } from 'lodash';
+import { BehaviorSubject, forkJoin, Observable, Subscription } from 'rxjs';
+import { distinctUntilChanged, map, take } from 'rxjs/operators';
+import { fnEnsureArray, fnExpandPattern, fnIsWithinPath, fnMatchesPattern, fnPeekPath } from './common';
+
+export type WarixFlatStateValidationMode = 'flag' | 'reject';
+
+export type WarixFlatStateValidationResult = string | string[] | null | undefined;
+
+export type WarixFlatStateValidator<T = any> = (value: T, path: string[], state: any) => WarixFlatStateValidationResult;
+
+export type WarixFlatStateAsyncValidator<T = any> = (value: T, path: string[], state: any) => Observable<WarixFlatStateValidationResult>;
+
+export interface IWarixFlatStateErrors {
+    [ path: string ]: string[];
+}
+
+export interface IWarixFlatStateValidationOptions {
+    /**
+     * flag accepts invalid writes reporting their errors, reject leaves the state unchanged throwing WarixFlatStateWriteRejected. Async validators always flag. Defaults to flag
+     */
+    mode?: WarixFlatStateValidationMode;
+}
+
+interface IWarixFlatStateValidatorEntry {
+    async: boolean;
+    pattern: string[];
+    validator: WarixFlatStateValidator | WarixFlatStateAsyncValidator;
+}
+
+const fnNormalizeResult = (result: WarixFlatStateValidationResult) => {
+    return (Array.isArray(result) ? result : [ result ]).filter(x => x !== null && x !== undefined && x !== '');
+};
+
+export class WarixFlatStateValidation {
+    private readonly asyncErrors: IWarixFlatStateErrors = Object.create(null);
+    private readonly errorsSource$ = new BehaviorSubject<IWarixFlatStateErrors>(Object.create(null));
+    private readonly pending = new Map<string, Subscription>();
+    private readonly validatingSource$ = new BehaviorSubject<boolean>(false);
+    private readonly syncErrors: IWarixFlatStateErrors = Object.create(null);
+    private readonly validators: IWarixFlatStateValidatorEntry[] = [];
+
+    public get errors() {
+        return this.errorsSource$.getValue();
+    }
+
+    public get errors$() {
+        return this.errorsSource$.asObservable();
+    }
+
+    public get isValid() {
+        return Object.keys(this.errors).length === 0;
+    }
+
+    public get isValidating$() {
+        return this.validatingSource$.pipe(distinctUntilChanged());
+    }
+
+    constructor(public readonly mode: WarixFlatStateValidationMode = 'flag') {
+    }
+
+    private affected(root: any, paths: string[][], async: boolean) {
+        const results = new Map<string, string[]>();
+        this.validators.filter(entry => entry.async === async).forEach(entry => {
+            paths.forEach(changed => fnExpandPattern(root, entry.pattern, changed).forEach(path => results.set(path.join('.'), path)));
+        });
+        return results;
+    }
+
+    private check(root: any, paths: string[][]) {
+        const results = new Map<string, string[]>();
+        this.affected(root, paths, false).forEach((path, key) => {
+            const value = fnPeekPath(root, path);
+            results.set(key, this.validators
+                .filter(entry => !entry.async && fnMatchesPattern(path, entry.pattern))
+                .reduce((all, entry) => [ ...all, ...fnNormalizeResult((entry.validator as WarixFlatStateValidator)(value, path, root)) ], [] as string[]));
+        });
+        return results;
+    }
+
+    private clear(target: IWarixFlatStateErrors, paths: string[][]) {
+        Object.keys(target).filter(key => paths.some(path => fnIsWithinPath(fnEnsureArray(key), path))).forEach(key => delete target[ key ]);
+    }
+
+    private publish() {
+        const merged: IWarixFlatStateErrors = Object.create(null);
+        [ this.syncErrors, this.asyncErrors ].forEach(source => Object.keys(source).forEach(key => {
+            merged[ key ] = [ ...(merged[ key ] || []), ...source[ key ] ];
+        }));
+        if (!isEqual(merged, this.errors)) {
+            this.errorsSource$.next(merged);
+        }
+        this.validatingSource$.next(this.pending.size > 0);
+    }
+
+    private store(target: IWarixFlatStateErrors, key: string, errors: string[]) {
+        if (errors.length > 0) {
+            target[ key ] = errors;
+        } else {
+            delete target[ key ];
+        }
+    }
+
+    public add(pattern: string | string[], validator: WarixFlatStateValidator | WarixFlatStateAsyncValidator, async: boolean) {
+        this.validators.push({ async, pattern: fnEnsureArray(pattern), validator });
+    }
+
+    public remove(pattern: string | string[], validator: WarixFlatStateValidator | WarixFlatStateAsyncValidator) {
+        const path = fnEnsureArray(pattern);
+        const index = this.validators.findIndex(entry => entry.validator === validator && isEqual(entry.pattern, path));
+        if (index > -1) {
+            this.validators.splice(index, 1);
+        }
+    }
+
+    /**
+     * Runs the sync validators affected by the changed paths without storing or publishing their errors. Returns the reported errors keyed by property path
+     * @param root State to validate
+     * @param paths Changed paths
+     */
+    public preview(root: any, paths: string[][]) {
+        const errors: IWarixFlatStateErrors = Object.create(null);
+        this.check(root, paths).forEach((results, key) => this.store(errors, key, results));
+        return errors;
+    }
+
+    /**
+     * Runs the sync validators affected by the changed paths and publishes their errors. Returns false if any of them reported errors
+     * @param root State to validate
+     * @param paths Changed paths
+     */
+    public validate(root: any, paths: string[][]) {
+        const results = this.check(root, paths);
+        this.clear(this.syncErrors, paths);
+        results.forEach((errors, key) => this.store(this.syncErrors, key, errors));
+        this.publish();
+        return Array.from(results.values()).every(errors => errors.length === 0);
+    }
+
+    /**
+     * Runs the async validators affected by the changed paths, cancelling the ones still running for the same paths
+     * @param root State to validate
+     * @param paths Changed paths
+     */
+    public validateAsync(root: any, paths: string[][]) {
+        const affected = this.affected(root, paths, true);
+        this.clear(this.asyncErrors, paths);
+        this.pending.forEach((subscription, key) => {
+            if (paths.some(path => fnIsWithinPath(fnEnsureArray(key), path))) {
+                subscription.unsubscribe();
+                this.pending.delete(key);
+            }
+        });
+        affected.forEach((path, key) => {
+            const value = fnPeekPath(root, path);
+            const validations = this.validators
+                .filter(entry => entry.async && fnMatchesPattern(path, entry.pattern))
+                .map(entry => (entry.validator as WarixFlatStateAsyncValidator)(value, path, root).pipe(take(1), map(fnNormalizeResult)));
+            if (this.pending.has(key)) {
+                this.pending.get(key).unsubscribe();
+            }
+            const settle = () => {
+                this.pending.delete(key);
+                this.publish();
+            };
+            const subscription = forkJoin(validations).subscribe(
+                results => this.store(this.asyncErrors, key, results.reduce((all, errors) => [ ...all, ...errors ], [])),
+                () => settle(),
+                () => settle()
+            );
+            if (!subscription.closed) {
+                this.pending.set(key, subscription);
+            }
+        });
+        this.publish();
+    }
+
+    public errorsIn(path: string | string[]) {
+        const key = fnEnsureArray(path).join('.');
+        return this.errorsSource$.pipe(map(errors => errors[ key ] || []), distinctUntilChanged(isEqual));
+    }
+
+    public complete() {
+        this.pending.forEach(subscription => subscription.unsubscribe());
+        this.pending.clear();
+        this.errorsSource$.complete();
+        this.validatingSource$.complete();
+    }
+}
@@ -1,3 +1,4 @@
+export * from './flat-state';
 export * from './operators/on-subscribe';
 export { IWarixResizeObserverEntry } from './support/interfaces';
 export * from './warix.array-subject';
@@ -6,6 +7,7 @@ export * from './warix.data-pager';
 export * from './warix.data-subject';
 export * from './warix.flat-state';
 export * from './warix.grid-subject';
+export * from './warix.inspector';
 export * from './warix.requests-manager';
 export * from './warix.resize-observer';
 export * from './warix.subscriptions-manager';
@@ -1,9 +1,112 @@
+import { isNil } from 'lodash';
 import { BehaviorSubject, Subject } from 'rxjs';
 import { distinctUntilChanged, map } from 'rxjs/operators';
 import * as ArrayOps from 'warix-core/warix.array-operations';
 
+export type WarixArrayTrackBy<T> = (item: T) => any;
+
+export type WarixArrayOverflow = 'dropOldest' | 'dropNewest' | 'reject';
+
+export type WarixArrayRemovedItems<T> = T[] & { evicted?: boolean };
+
+export interface IWarixArrayMovedItem<T> {
+    fromIndex: number;
+    item: T;
+    toIndex: number;
+}
+
+export interface IWarixArrayUpdatedItem<T> {
+    index: number;
+    item: T;
+    previousItem: T;
+}
+
+export interface IWarixArraySubjectChange<T> extends ArrayOps.IWarixArrayOperationChange<T> {
+    evicted?: boolean;
+    movedItems?: IWarixArrayMovedItem<T>[];
+    updatedItems?: IWarixArrayUpdatedItem<T>[];
+}
+
+export interface IWarixArraySubjectOptions<T> {
+    /**
+     * Maximum number of items. Items over the limit are handled according to overflow and reported through removedItems$ flagged as evicted. Every emission copies the array, so bounded mutations cost O(maxLength)
+     */
+    maxLength?: number;
+    /**
+     * dropOldest evicts the oldest items, dropNewest discards the incoming items over the limit and reject throws. Defaults to dropOldest
+     */
+    overflow?: WarixArrayOverflow;
+    /**
+     * Obtains the identity of an item. When provided, set computes a keyed diff reporting inserts, removes, moves and updates
+     */
+    trackBy?: WarixArrayTrackBy<T>;
+}
+
+const fnEvicted = <T>(items: T[]): WarixArrayRemovedItems<T> => Object.assign(items, { evicted: true });
+
+const fnIsEmptyDiff = <T>(result: IWarixArraySubjectChange<T>) => {
+    return !!result.movedItems && [ result.addedItems, result.movedItems, result.removedItems, result.updatedItems ].every(x => x.length === 0);
+};
+
+const fnIndexByKey = <T>(array: T[], trackBy: WarixArrayTrackBy<T>) => {
+    const indexes = new Map<any, number>();
+    for (let i = 0; i < array.length; i++) {
+        const key = trackBy(array[ i ]);
+        if (indexes.has(key)) {
+            return null;
+        }
+        indexes.set(key, i);
+    }
+    return indexes;
+};
+
+const fnLongestIncreasingIndexes = (values: number[]) => {
+    const tails: number[] = [];
+    const previous: number[] = [];
+    values.forEach((value, i) => {
+        let low = 0;
+        let high = tails.length;
+        while (low < high) {
+            const middle = Math.floor((low + high) / 2);
+            if (values[ tails[ middle ] ] < value) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        previous[ i ] = low > 0 ? tails[ low - 1 ] : -1;
+        tails[ low ] = i;
+    });
+    const result = new Set<number>();
+    for (let i = tails.length > 0 ? tails[ tails.length - 1 ] : -1; i > -1; i = previous[ i ]) {
+        result.add(i);
+    }
+    return result;
+};
+
+const fnKeyedDiff = <T>(oldValue: T[], newValue: T[], trackBy: WarixArrayTrackBy<T>) => {
+    const oldIndexes = fnIndexByKey(oldValue, trackBy);
+    const newIndexes = fnIndexByKey(newValue, trackBy);
+    if (!oldIndexes || !newIndexes) {
+        return null;
+    }
+    const retained = newValue.map((item, index) => ({ index, item, oldIndex: oldIndexes.has(trackBy(item)) ? oldIndexes.get(trackBy(item)) : -1 }))
+        .filter(x => x.oldIndex > -1);
+    const stable = fnLongestIncreasingIndexes(retained.map(x => x.oldIndex));
+    return {
+        addedItems: newValue.filter(item => !oldIndexes.has(trackBy(item))),
+        movedItems: retained.filter((x, i) => !stable.has(i)).map(x => ({ fromIndex: x.oldIndex, item: x.item, toIndex: x.index })) as IWarixArrayMovedItem<T>[],
+        removedItems: oldValue.filter(item => !newIndexes.has(trackBy(item))),
+        updatedItems: retained.filter(x => oldValue[ x.oldIndex ] !== x.item)
+            .map(x => ({ index: x.index, item: x.item, previousItem: oldValue[ x.oldIndex ] })) as IWarixArrayUpdatedItem<T>[]
+    };
+};
+
 export class WarixArraySubject<T> extends BehaviorSubject<T[]> {
-    private readonly actionDetails$ = new Subject<ArrayOps.IWarixArrayOperationChange<T>>();
+    private readonly actionDetails$ = new Subject<IWarixArraySubjectChange<T>>();
+    private readonly trackBy: WarixArrayTrackBy<T>;
+    private readonly maxLength: number;
+    private readonly overflow: WarixArrayOverflow;
 
     public get length() {
         return this.getValue().length;
@@ -46,18 +149,84 @@ export class WarixArraySubject<T> extends BehaviorSubject<T[]> {
     }
 
     public get removedItems$() {
-        return this.actionDetails$.pipe(map(x => x.removedItems));
+        return this.actionDetails$.pipe(map(x => x.removedItems as WarixArrayRemovedItems<T>));
     }
 
     public get shiftedItems$() {
         return this.actionDetails$.pipe(map(x => x.shiftedItems));
     }
 
-    private processArrayResult(result: ArrayOps.IWarixArrayOperationChange<T>) {
+    public get movedItems$() {
+        return this.actionDetails$.pipe(map(x => x.movedItems || []));
+    }
+
+    public get updatedItems$() {
+        return this.actionDetails$.pipe(map(x => x.updatedItems || []));
+    }
+
+    constructor(value: T[], options: IWarixArraySubjectOptions<T> = {}) {
+        super(value);
+        this.trackBy = options.trackBy;
+        this.maxLength = isNil(options.maxLength) ? Infinity : Math.max(0, options.maxLength);
+        this.overflow = options.overflow || 'dropOldest';
+        if (value.length > this.maxLength) {
+            super.next(this.accept(0, value).accepted);
+        }
+    }
+
+    private processArrayResult(result: IWarixArraySubjectChange<T>) {
         if (result.oldValue !== result.newValue) {
             super.next(result.newValue);
+            if (!fnIsEmptyDiff(result)) {
+                this.actionDetails$.next(result);
+            }
+        }
+        return this;
+    }
+
+    private accept(remaining: number, items: T[]) {
+        if (remaining + items.length <= this.maxLength) {
+            return { accepted: items, dropped: [] as T[] };
+        }
+        if (this.overflow === 'reject') {
+            throw new Error(`WarixArrayMaxLengthExceeded. Adding ${ items.length } items to ${ remaining } would exceed the maximum length of ${ this.maxLength }`);
+        }
+        const kept = this.overflow === 'dropNewest' ? Math.max(0, this.maxLength - remaining) : Math.min(items.length, this.maxLength);
+        return this.overflow === 'dropNewest' ?
+            { accepted: items.slice(0, kept), dropped: items.slice(kept) } :
+            { accepted: items.slice(items.length - kept), dropped: items.slice(0, items.length - kept) };
+    }
+
+    private evict(value: T[], evicted: (item: T, index: number) => boolean, dropped: T[]) {
+        const result: IWarixArraySubjectChange<T> = ArrayOps.arrayRemoveWhere(value, evicted);
+        return Object.assign(result, { evicted: true, removedItems: fnEvicted([ ...result.removedItems, ...dropped ]) });
+    }
+
+    private bounded(start: number, deleteCount: number, items: T[], apply: (accepted: T[]) => IWarixArraySubjectChange<T>) {
+        const current = this.value;
+        const from = Math.min(Math.max(start < 0 ? current.length + start : start, 0), current.length);
+        const remaining = current.length - Math.min(Math.max(deleteCount, 0), current.length - from);
+        if (remaining + items.length <= this.maxLength) {
+            return this.processArrayResult(apply(items));
+        }
+        const { accepted, dropped } = this.accept(remaining, items);
+        if (accepted.length === 0 && remaining === current.length) {
+            this.actionDetails$.next(this.evict(current, () => false, dropped));
+            return this;
+        }
+        const result = apply(accepted);
+        const evictedIndexes = new Set<number>();
+        for (let i = 0; i < result.newValue.length && evictedIndexes.size < remaining + accepted.length - this.maxLength; i++) {
+            if (i < from || i >= from + accepted.length) {
+                evictedIndexes.add(i);
+            }
+        }
+        const eviction = this.evict(result.newValue, (item, index) => evictedIndexes.has(index), dropped);
+        super.next(eviction.newValue);
+        if (!fnIsEmptyDiff(result)) {
             this.actionDetails$.next(result);
         }
+        this.actionDetails$.next(eviction);
         return this;
     }
 
@@ -109,7 +278,7 @@ export class WarixArraySubject<T> extends BehaviorSubject<T[]> {
     }
 
     public push(...items: T[]) {
-        return this.processArrayResult(ArrayOps.arrayPush(this.value, ...items));
+        return this.bounded(this.length, 0, items, accepted => ArrayOps.arrayPush(this.value, ...accepted));
     }
 
     public pop() {
@@ -121,15 +290,15 @@ export class WarixArraySubject<T> extends BehaviorSubject<T[]> {
     }
 
     public unshift(...items: T[]) {
-        return this.processArrayResult(ArrayOps.arrayUnshift(this.value, ...items));
+        return this.bounded(0, 0, items, accepted => ArrayOps.arrayUnshift(this.value, ...accepted));
     }
 
     public splice(start: number, deleteCount = 0, ...items: T[]) {
-        return this.processArrayResult(ArrayOps.arraySplice(this.value, start, deleteCount, ...items));
+        return this.bounded(start, deleteCount, items, accepted => ArrayOps.arraySplice(this.value, start, deleteCount, ...accepted));
     }
 
     public insert(index: number, ...items: T[]) {
-        return this.processArrayResult(ArrayOps.arrayInsert(this.value, index, ...items));
+        return this.bounded(index, 0, items, accepted => ArrayOps.arrayInsert(this.value, index, ...accepted));
     }
 
     public moveItem(fromIndex: number, toIndex: number) {
@@ -157,7 +326,11 @@ export class WarixArraySubject<T> extends BehaviorSubject<T[]> {
     }
 
     public set(newValue: T[]) {
-        return this.processArrayResult(ArrayOps.arraySet(this.value, newValue));
+        return this.bounded(0, this.length, newValue, accepted => {
+            const result: IWarixArraySubjectChange<T> = ArrayOps.arraySet(this.value, accepted);
+            const diff = this.trackBy ? fnKeyedDiff(this.value, accepted, this.trackBy) : null;
+            return diff ? Object.assign(result, diff) : result;
+        });
     }
 
     public shuffle() {
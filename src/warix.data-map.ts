@@ -1,51 +1,132 @@
-import { Observable } from 'rxjs';
+import { Observable, Subject } from 'rxjs';
+import { shareReplay, takeUntil } from 'rxjs/operators';
 import { WarixDataSubject } from './warix.data-subject';
 
-export class WarixDataMap {
+interface IKeyed {
+    [ key: string ]: any;
+}
+
+export type WarixDataMapFactory<T = any> = (...sources: Observable<any>[]) => Observable<T>;
+
+/**
+ * Observables of the provided dependency keys of the schema
+ */
+export type WarixDataMapSources<S, D> = { [ I in keyof D ]: Observable<S[ D[ I ] & keyof S ]> };
+
+/**
+ * Schema resulting from adding a key. Untyped schemas remain untyped
+ */
+export type WarixDataMapWith<S, K extends string, V> = string extends keyof S ? S : K extends keyof S ? S : S & { [ P in K ]: V };
+
+/**
+ * Schema resulting from replacing a key. Untyped schemas remain untyped
+ */
+export type WarixDataMapReplacing<S, K extends string, V> = string extends keyof S ? S : Pick<S, Exclude<keyof S, K>> & { [ P in K ]: V };
+
+/**
+ * Schema resulting from lifting the keys of a data subject. Untyped schemas become typed
+ */
+export type WarixDataMapLifting<S, T> = (string extends keyof S ? {} : S) & T;
+
+interface IWarixDataMapDefinition {
+    deps: string[];
+    factory: WarixDataMapFactory;
+    terminator$: Subject<void>;
+}
+
+export class WarixDataMap<S extends {} = IKeyed> {
     private readonly map = new Map<string, Observable<any>>();
+    private readonly definitions = new Map<string, IWarixDataMapDefinition>();
+
+    private assertAcyclic(key: string, deps: string[], trail: string[] = [ key ]) {
+        deps.forEach(dep => {
+            if (dep === key) {
+                throw new Error(`WarixDataMapCircularDependency. Key ${ key } depends on itself through ${ [ ...trail, dep ].join(' -> ') }`);
+            }
+            if (this.definitions.has(dep)) {
+                this.assertAcyclic(key, this.definitions.get(dep).deps, [ ...trail, dep ]);
+            }
+        });
+    }
+
+    private build(key: string) {
+        const definition = this.definitions.get(key);
+        definition.terminator$ = new Subject<void>();
+        this.map.set(key, definition.factory(...definition.deps.map(dep => this.get(dep as keyof S & string))).pipe(
+            takeUntil(definition.terminator$),
+            shareReplay({ bufferSize: 1, refCount: true })
+        ));
+    }
+
+    private dependentsOf(key: string) {
+        return Array.from(this.definitions.keys()).filter(x => this.definitions.get(x).deps.includes(key));
+    }
+
+    private dispose(key: string) {
+        const definition = this.definitions.get(key);
+        if (definition && definition.terminator$) {
+            definition.terminator$.next();
+            definition.terminator$.complete();
+        }
+        this.definitions.delete(key);
+    }
 
     public has(key: string) {
-        return this.map.has(key);
+        return this.map.has(key) || this.definitions.has(key);
     }
 
-    public get<T = any>(key: string) {
+    public get<T = never, K extends keyof S & string = keyof S & string>(key: K): Observable<[ T ] extends [ never ] ? S[ K ] : T> {
+        if (!this.map.has(key) && this.definitions.has(key)) {
+            this.build(key);
+        }
         if (this.has(key)) {
-            return this.map.get(key) as Observable<T>;
+            return this.map.get(key);
         }
         throw new Error(`WarixDataMapKeyNotException. Key ${ key } has not been mapped`);
     }
 
-    public set(key: string, value: Observable<any>) {
+    public set<K extends string, V>(key: K, value: Observable<V>) {
         if (!this.has(key)) {
             this.map.set(key, value);
         }
-        return this;
+        return this as unknown as WarixDataMap<WarixDataMapWith<S, K, V>>;
     }
 
-    public forceSet(key: string, value: Observable<any>) {
+    public forceSet<K extends string, V>(key: K, value: Observable<V>) {
+        this.definitions.delete(key);
         this.map.set(key, value);
-        return this;
+        return this as unknown as WarixDataMap<WarixDataMapReplacing<S, K, V>>;
+    }
+
+    public define<K extends string, V, D extends (keyof S & string)[] = []>(key: K, factory: (...sources: WarixDataMapSources<S, D>) => Observable<V>, deps?: [ ...D ]) {
+        if (!this.has(key)) {
+            this.assertAcyclic(key, deps || []);
+            this.definitions.set(key, { deps: deps || [], factory: factory as WarixDataMapFactory, terminator$: null });
+        }
+        return this as unknown as WarixDataMap<WarixDataMapWith<S, K, V>>;
     }
 
     public liftFromDataSubject<T>(ds: WarixDataSubject<T>) {
         Object.keys(ds.getValue()).forEach(key => {
             this.set(key, ds.get(key as keyof T));
         });
-        return this;
+        return this as unknown as WarixDataMap<WarixDataMapLifting<S, T>>;
     }
 
     public remove(key: string) {
         if (this.has(key)) {
+            this.dependentsOf(key).forEach(dependent => this.remove(dependent));
+            this.dispose(key);
             this.map.delete(key);
         }
         return this;
     }
 
     public clear() {
-        this.map.clear();
+        Array.from(new Set([ ...this.definitions.keys(), ...this.map.keys() ])).forEach(key => this.remove(key));
     }
 
     public complete() {
         this.clear();
     }
-}
\ No newline at end of file
+}
@@ -24,9 +24,14 @@ interface IWarixDataPagerState<T = any> {
     data: T[];
 }
 
+interface IWarixDataPagerMap<T = any> extends IWarixDataPagerState<T> {
+    eof: boolean;
+    isLoading: boolean;
+}
+
 export class WarixDataPager<T = any> {
     private readonly state$: WarixDataSubject<IWarixDataPagerState<T>>;
-    private readonly stateMap: WarixDataMap;
+    private readonly stateMap: WarixDataMap<IWarixDataPagerMap<T>>;
     private readonly pages: IWarixDataPagerPage<T>[] = [];
 
     /**
@@ -39,7 +44,7 @@ export class WarixDataPager<T = any> {
      * Gets an observable of the data that represents the last request issued on the pager
      */
     public get data$() {
-        return this.stateMap.get<T[]>('data');
+        return this.stateMap.get('data');
     }
 
     /**
@@ -52,7 +57,7 @@ export class WarixDataPager<T = any> {
      * Gets an observable of the last index the pager could retrieve when a request returned less than the pageSize of the pager
      */
     public get eofIndex$() {
-        return this.stateMap.get<number>('eofIndex');
+        return this.stateMap.get('eofIndex');
     }
 
     /**
@@ -65,7 +70,7 @@ export class WarixDataPager<T = any> {
      * Gets an observable to the last page index the pager could retrieve when a request returned less than the pageSize of the pager
      */
     public get eofPage$() {
-        return this.stateMap.get<number>('eofPage');
+        return this.stateMap.get('eofPage');
     }
 
     /**
@@ -78,7 +83,7 @@ export class WarixDataPager<T = any> {
      * Gets an observable that determines when the pager issues a request that return a data set with less records than the pageSize
      */
     public get eof$() {
-        return this.stateMap.get<boolean>('eof');
+        return this.stateMap.get('eof');
     }
 
     /**
@@ -91,7 +96,7 @@ export class WarixDataPager<T = any> {
      * Gets an observable to the last maximum index requested to the pager
      */
     public get lastRequestMaxIndex$() {
-        return this.stateMap.get<number>('lastRequestMaxIndex');
+        return this.stateMap.get('lastRequestMaxIndex');
     }
 
     /**
@@ -104,7 +109,7 @@ export class WarixDataPager<T = any> {
      * Gets an observable to the last minimum index requested to the pager
      */
     public get lastRequestMinIndex$() {
-        return this.stateMap.get<number>('lastRequestMinIndex');
+        return this.stateMap.get('lastRequestMinIndex');
     }
 
     /**
@@ -117,7 +122,7 @@ export class WarixDataPager<T = any> {
      * Gets an observable that determines if pager is waiting for data callback to complete
      */
     public get isLoading$() {
-        return this.stateMap.get<T[]>('isLoading');
+        return this.stateMap.get('isLoading');
     }
 
     /**
@@ -130,7 +135,7 @@ export class WarixDataPager<T = any> {
      * Gets an observable to the maximum record that exist in the pager data. (Might not be the eofIndex)
      */
     public get maxIndex$() {
-        return this.stateMap.get<number>('maxIndex');
+        return this.stateMap.get('maxIndex');
     }
 
     /**
@@ -143,7 +148,7 @@ export class WarixDataPager<T = any> {
      * Gets an oservable to the minimum record that exist in the pager data. (Might not be the sofIndex)
      */
     public get minIndex$() {
-        return this.stateMap.get<number>('minIndex');
+        return this.stateMap.get('minIndex');
     }
 
     /**
@@ -156,7 +161,7 @@ export class WarixDataPager<T = any> {
      * Gets an observable to the maximum pageIndex that exist in the pager data. (Might not be the eofPageIndex)
      */
     public get maxPageIndex$() {
-        return this.stateMap.get<number>('maxPageIndex');
+        return this.stateMap.get('maxPageIndex');
     }
 
     /**
@@ -169,7 +174,7 @@ export class WarixDataPager<T = any> {
      * Gets an observable to the minimum pageIndex that exist in the pager data. (Might not be the sofPageIndex)
      */
     public get minPageIndex$() {
-        return this.stateMap.get<number>('minPageIndex');
+        return this.stateMap.get('minPageIndex');
     }
 
     /**
@@ -190,9 +195,9 @@ export class WarixDataPager<T = any> {
             minIndex: null,
             minPageIndex: null
         });
-        this.stateMap = new WarixDataMap().liftFromDataSubject(this.state$);
-        this.stateMap.set('isLoading', this.state$.map('loadingCount', x => x > 0).pipe(distinctUntilChanged()));
-        this.stateMap.set('eof', this.state$.map('eofIndex', x => x !== null).pipe(distinctUntilChanged()));
+        this.stateMap = new WarixDataMap().liftFromDataSubject(this.state$)
+            .set('isLoading', this.state$.map('loadingCount', x => x > 0).pipe(distinctUntilChanged()))
+            .set('eof', this.state$.map('eofIndex', x => x !== null).pipe(distinctUntilChanged()));
     }
 
     /**
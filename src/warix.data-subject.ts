@@ -1,12 +1,241 @@
-import { cloneDeep } from 'lodash';
-import { BehaviorSubject, combineLatest, Observable } from 'rxjs';
-import { distinctUntilChanged, map, pluck } from 'rxjs/operators';
+import { cloneDeep, isEqual, uniq } from 'lodash';
+import { animationFrameScheduler, asapScheduler, BehaviorSubject, combineLatest, Observable, SchedulerLike, Subscription } from 'rxjs';
+import { distinctUntilChanged, map, pluck, skip } from 'rxjs/operators';
+import { fnMutateDeepSet, fnPeekPath, fnToPath } from './flat-state/common';
+import { WarixStatePath as Path, WarixStatePathValue as At } from './flat-state/warix.flat-state-types';
+import { WarixFlatStateValidation, WarixFlatStateValidationResult } from './flat-state/warix.flat-state-validation';
+
+export type WarixDataSubjectEquality = (a: any, b: any) => boolean;
+
+export interface IWarixDataSubjectTrackingOptions {
+    /**
+     * Equality check used to compare the current value against the baseline. Defaults to a deep comparison
+     */
+    equals?: WarixDataSubjectEquality;
+}
+
+export type WarixDataSubjectValidator<V = any, T = any> = (value: V, state: T) => WarixFlatStateValidationResult;
+
+export type WarixDataSubjectAsyncValidator<V = any, T = any> = (value: V, state: T) => Observable<WarixFlatStateValidationResult>;
+
+export interface IWarixDataSubjectKeyValidators<V = any, T = any> {
+    async?: WarixDataSubjectAsyncValidator<V, T>[];
+    sync?: WarixDataSubjectValidator<V, T>[];
+}
+
+export type WarixDataSubjectValidators<T> = { [ K in keyof T ]?: IWarixDataSubjectKeyValidators<T[ K ], T> };
+
+export type WarixDataSubjectErrors<T> = { [ K in keyof T ]?: string[] };
+
+export type WarixDataSubjectScheduling = 'sync' | 'microtask' | 'animationFrame';
+
+export type WarixDataSubjectKeyEquality<T> = { [ K in keyof T ]?: WarixDataSubjectEquality };
+
+export type WarixDataSubjectSelection<T, S> = { [ A in keyof S ]: At<T, S[ A ]> };
+
+export interface IWarixDataSubjectOptions<T = any> {
+    /**
+     * Equality check used to skip emissions of unchanged keys. Defaults to a reference comparison
+     */
+    equals?: WarixDataSubjectEquality;
+    /**
+     * Equality checks of specific keys, overriding the subject one
+     */
+    keyEquals?: WarixDataSubjectKeyEquality<T>;
+    /**
+     * sync emits every write, microtask and animationFrame coalesce the writes until the next microtask or animation frame. Defaults to sync
+     */
+    scheduling?: WarixDataSubjectScheduling;
+    /**
+     * Keeps a baseline snapshot to compute the dirty state against
+     */
+    tracked?: boolean | IWarixDataSubjectTrackingOptions;
+    /**
+     * Validation rules of each key. Running async validations are cancelled when the key changes again
+     */
+    validators?: WarixDataSubjectValidators<T>;
+}
+
+export type WarixDataSubjectBindingSide = 'source' | 'target';
+
+export interface IWarixDataSubjectBindingOptions<S = any, V = any> {
+    /**
+     * Side whose value is applied to the other one when the binding is created. Ignored on one way bindings. Defaults to source
+     */
+    initial?: WarixDataSubjectBindingSide;
+    /**
+     * Only propagates the source changes into the target
+     */
+    oneWay?: boolean;
+    /**
+     * Converts the source value into the target one
+     */
+    toSource?: (value: V) => S;
+    /**
+     * Converts the target value into the source one
+     */
+    toTarget?: (value: S) => V;
+}
+
+export interface IWarixDataSubjectChange<V = any> {
+    currentValue: V;
+    previousValue: V;
+}
+
+export type WarixDataSubjectChanges<T> = { [ K in keyof T ]?: IWarixDataSubjectChange<T[ K ]> };
 
 const empty = () => Object.create(null);
 
+const fnDirtyKeys = <T>(current: T, baseline: T, equals: WarixDataSubjectEquality) => {
+    return uniq([ ...Object.keys(baseline), ...Object.keys(current) ]).filter(key => !equals(current[ key ], baseline[ key ])) as (keyof T)[];
+};
+
+const fnSchedulerFor = (scheduling: WarixDataSubjectScheduling): SchedulerLike => {
+    return scheduling === 'microtask' ? asapScheduler : scheduling === 'animationFrame' ? animationFrameScheduler : null;
+};
+
+const fnIdentity = (x: any) => x;
+
+const fnStrictEquals = (a: any, b: any) => a === b;
+
+const fnChangedKeys = (current: any, previous: any) => {
+    return uniq([ ...Object.keys(previous), ...Object.keys(current) ]).filter(key => current[ key ] !== previous[ key ]);
+};
+
 export class WarixDataSubject<T extends {}> extends BehaviorSubject<T> {
+    private readonly baseline$: BehaviorSubject<T>;
+    private readonly trackingEquals: WarixDataSubjectEquality;
+    private readonly validation: WarixFlatStateValidation;
+    private readonly equals: WarixDataSubjectEquality;
+    private readonly keyEquals: WarixDataSubjectKeyEquality<T>;
+    private readonly scheduler: SchedulerLike;
+    private hasPending = false;
+    private pending: T;
+    private scheduled: Subscription = null;
+
+    public get isTracked() {
+        return !!this.baseline$;
+    }
+
+    public get dirtyKeys$(): Observable<(keyof T)[]> {
+        const baseline$ = this.requireTracking();
+        return combineLatest(this, baseline$).pipe(map(([ current, baseline ]) => fnDirtyKeys(current, baseline, this.trackingEquals)), distinctUntilChanged(isEqual));
+    }
+
+    public get isDirty() {
+        return fnDirtyKeys(this.value, this.requireTracking().value, this.trackingEquals).length > 0;
+    }
+    public get isDirty$() {
+        return this.dirtyKeys$.pipe(map(keys => keys.length > 0), distinctUntilChanged());
+    }
+
+    public get errors() {
+        return this.requireValidation().errors as WarixDataSubjectErrors<T>;
+    }
+    public get errors$() {
+        return this.requireValidation().errors$ as Observable<WarixDataSubjectErrors<T>>;
+    }
+
+    public get isValid() {
+        return this.requireValidation().isValid;
+    }
+    public get isValid$() {
+        return this.errors$.pipe(map(errors => Object.keys(errors).length === 0), distinctUntilChanged());
+    }
+
+    public get isValidating$() {
+        return this.requireValidation().isValidating$;
+    }
+
+    constructor(value: T, options: IWarixDataSubjectOptions<T> = {}) {
+        super(value);
+        this.equals = options.equals || fnStrictEquals;
+        this.keyEquals = Object.assign(empty(), options.keyEquals);
+        this.scheduler = fnSchedulerFor(options.scheduling);
+        if (options.tracked) {
+            const tracking = options.tracked === true ? {} : options.tracked;
+            this.trackingEquals = tracking.equals || isEqual;
+            this.baseline$ = new BehaviorSubject(cloneDeep(value));
+        }
+        if (options.validators) {
+            this.validation = new WarixFlatStateValidation();
+            Object.keys(options.validators).forEach(key => {
+                const validators: IWarixDataSubjectKeyValidators = options.validators[ key ];
+                (validators.sync || []).forEach(validator => this.validation.add([ key ], (x, path, state) => validator(x, state), false));
+                (validators.async || []).forEach(validator => this.validation.add([ key ], (x, path, state) => validator(x, state), true));
+            });
+            this.validation.validate(value, [ [] ]);
+            this.validation.validateAsync(value, [ [] ]);
+        }
+    }
+
+    private requireTracking() {
+        if (!this.baseline$) {
+            throw new Error('InvalidTrackingOperation. Tracking is not enabled for this subject');
+        }
+        return this.baseline$;
+    }
+
+    private requireValidation() {
+        if (!this.validation) {
+            throw new Error('InvalidValidationOperation. No validators are defined for this subject');
+        }
+        return this.validation;
+    }
+
+    private equalityFor(path: string[]) {
+        return path.length === 1 && this.keyEquals[ path[0] ] || this.equals;
+    }
+
+    private getMany(paths: Path<T>[]) {
+        const entries = paths.map(fnToPath).map(path => ({ equals: this.equalityFor(path), path }));
+        return this.pipe(
+            map(value => entries.map(entry => fnPeekPath(value, entry.path))),
+            distinctUntilChanged((a, b) => entries.every((entry, index) => entry.equals(a[ index ], b[ index ])))
+        );
+    }
+
+    private emit(value: T) {
+        if (this.validation && !this.isStopped) {
+            const changed = fnChangedKeys(value, super.getValue()).map(key => [ key ]);
+            this.validation.validate(value, changed);
+            this.validation.validateAsync(value, changed);
+        }
+        super.next(value);
+    }
+
+    public getValue() {
+        return this.hasPending ? this.pending : super.getValue();
+    }
+
+    public next(value: T) {
+        if (!this.scheduler || this.isStopped) {
+            this.emit(value);
+            return;
+        }
+        this.hasPending = true;
+        this.pending = value;
+        if (!this.scheduled) {
+            this.scheduled = this.scheduler.schedule(() => this.flush());
+        }
+    }
+
+    public flush() {
+        if (this.scheduled) {
+            this.scheduled.unsubscribe();
+            this.scheduled = null;
+        }
+        if (this.hasPending) {
+            const value = this.pending;
+            this.hasPending = false;
+            this.pending = undefined;
+            this.emit(value);
+        }
+        return this;
+    }
+
     public get<M extends keyof T>(key: M) {
-        return this.pipe(pluck(key), distinctUntilChanged());
+        return this.pipe(pluck(key), distinctUntilChanged(this.equalityFor([ key as string ])));
     }
 
     public set<M extends keyof T>(key: M, value: T[M]) {
@@ -14,43 +243,161 @@ export class WarixDataSubject<T extends {}> extends BehaviorSubject<T> {
         return this;
     }
 
-    public compound<A extends keyof T, B extends keyof T>(a: A, b: B): Observable<[T[A], T[B]]>;
-    public compound<A extends keyof T, B extends keyof T, C extends keyof T>(a: A, b: B, c: C): Observable<[T[A], T[B], T[C]]>;
-    public compound<A extends keyof T, B extends keyof T, C extends keyof T, D extends keyof T>(a: A, b: B, c: C, d: D): Observable<[T[A], T[B], T[C], T[D]]>;
-    public compound<A extends keyof T, B extends keyof T, C extends keyof T, D extends keyof T, E extends keyof T>(a: A, b: B, c: C, d: D, e: E): Observable<[T[A], T[B], T[C], T[D], T[E]]>;
-    public compound<A extends keyof T, B extends keyof T, C extends keyof T, D extends keyof T, E extends keyof T, F extends keyof T>(a: A, b: B, c: C, d: D, e: E, f: F): Observable<[T[A], T[B], T[C], T[D], T[E], T[F]]>;
+    public getIn<P extends Path<T>>(path: P): Observable<At<T, P>> {
+        const properties = fnToPath(path);
+        return this.pipe(map(x => fnPeekPath(x, properties)), distinctUntilChanged(this.equalityFor(properties)));
+    }
+
+    public setIn<P extends Path<T>>(path: P, value: At<T, P>) {
+        const properties = fnToPath(path);
+        this.next(properties.length === 0 ? value : fnMutateDeepSet(this.value, properties, value));
+        return this;
+    }
+
+    public compound<A extends Path<T>, B extends Path<T>>(a: A, b: B): Observable<[At<T, A>, At<T, B>]>;
+    public compound<A extends Path<T>, B extends Path<T>, C extends Path<T>>(a: A, b: B, c: C): Observable<[At<T, A>, At<T, B>, At<T, C>]>;
+    public compound<A extends Path<T>, B extends Path<T>, C extends Path<T>, D extends Path<T>>(a: A, b: B, c: C, d: D): Observable<[At<T, A>, At<T, B>, At<T, C>, At<T, D>]>;
+    public compound<A extends Path<T>, B extends Path<T>, C extends Path<T>, D extends Path<T>, E extends Path<T>>(a: A, b: B, c: C, d: D, e: E): Observable<[At<T, A>, At<T, B>, At<T, C>, At<T, D>, At<T, E>]>;
+    public compound<A extends Path<T>, B extends Path<T>, C extends Path<T>, D extends Path<T>, E extends Path<T>, F extends Path<T>>(a: A, b: B, c: C, d: D, e: E, f: F): Observable<[At<T, A>, At<T, B>, At<T, C>, At<T, D>, At<T, E>, At<T, F>]>;
     public compound() {
-        return combineLatest(Array.from(arguments).map(x => this.get(x)));
+        return this.getMany(Array.from(arguments));
     }
 
-    public map<A extends keyof T, M>(a: A, mapping: (value: T[A]) => M): Observable<M>;
-    public map<A extends keyof T, B extends keyof T, M>(a: A, b: B, mapping: (values: [ T[A], T[B] ]) => M): Observable<M>;
-    public map<A extends keyof T, B extends keyof T, C extends keyof T, M>(a: A, b: B, c: C, mapping: (values: [ T[A], T[B], T[C] ]) => M): Observable<M>;
-    public map<A extends keyof T, B extends keyof T, C extends keyof T, D extends keyof T, M>(a: A, b: B, c: C, d: D, mapping: (values: [ T[A], T[B], T[C], T[D] ]) => M): Observable<M>;
-    public map<A extends keyof T, B extends keyof T, C extends keyof T, D extends keyof T, E extends keyof T, M>(a: A, b: B, c: C, d: D, e: E, mapping: (values: [ T[A], T[B], T[C], T[D], T[E] ]) => M): Observable<M>;
-    public map<A extends keyof T, B extends keyof T, C extends keyof T, D extends keyof T, E extends keyof T, F extends keyof T, M>(a: A, b: B, c: C, d: D, e: E, f: F, mapping: (values: [ T[A], T[B], T[C], T[D], T[E], T[F] ]) => M): Observable<M>;
+    public map<A extends Path<T>, M>(a: A, mapping: (value: At<T, A>) => M): Observable<M>;
+    public map<A extends Path<T>, B extends Path<T>, M>(a: A, b: B, mapping: (values: [ At<T, A>, At<T, B> ]) => M): Observable<M>;
+    public map<A extends Path<T>, B extends Path<T>, C extends Path<T>, M>(a: A, b: B, c: C, mapping: (values: [ At<T, A>, At<T, B>, At<T, C> ]) => M): Observable<M>;
+    public map<A extends Path<T>, B extends Path<T>, C extends Path<T>, D extends Path<T>, M>(a: A, b: B, c: C, d: D, mapping: (values: [ At<T, A>, At<T, B>, At<T, C>, At<T, D> ]) => M): Observable<M>;
+    public map<A extends Path<T>, B extends Path<T>, C extends Path<T>, D extends Path<T>, E extends Path<T>, M>(a: A, b: B, c: C, d: D, e: E, mapping: (values: [ At<T, A>, At<T, B>, At<T, C>, At<T, D>, At<T, E> ]) => M): Observable<M>;
+    public map<A extends Path<T>, B extends Path<T>, C extends Path<T>, D extends Path<T>, E extends Path<T>, F extends Path<T>, M>(
+        a: A, b: B, c: C, d: D, e: E, f: F, mapping: (values: [ At<T, A>, At<T, B>, At<T, C>, At<T, D>, At<T, E>, At<T, F> ]) => M): Observable<M>;
     public map() {
         const keys = Array.from(arguments);
         const mapping = keys.pop();
         if (keys.length === 1) {
-            return this.get(keys[0]).pipe(map(x => mapping(x)));
+            return this.getIn(keys[0]).pipe(map(x => mapping(x)));
         }
-        return combineLatest(keys.map(x => this.get(x))).pipe(map(x => mapping(x)));
+        return this.getMany(keys).pipe(map(x => mapping(x)));
+    }
+
+    public select<S extends { [ alias: string ]: Path<T> }>(selection: S): Observable<WarixDataSubjectSelection<T, S>> {
+        const aliases = Object.keys(selection);
+        return this.getMany(aliases.map(alias => selection[ alias ])).pipe(
+            map(values => aliases.reduce((result, alias, index) => Object.assign(result, { [ alias ]: values[ index ] }), {} as WarixDataSubjectSelection<T, S>))
+        );
     }
 
     public peekKey<M extends keyof T>(key: M) {
         return this.value[key];
     }
 
+    public peekIn<P extends Path<T>>(path: P): At<T, P> {
+        return fnPeekPath(this.value, fnToPath(path));
+    }
+
+    public patchIn<P extends Path<T>>(path: P, value: Partial<At<T, P>>) {
+        return this.setIn(path, Object.assign(empty(), this.peekIn(path), value));
+    }
+
     public patch(value: Partial<T>) {
         this.next(Object.assign(empty(), this.value, value));
         return this;
     }
 
+    public bind<S extends {}, K extends keyof S, M extends keyof T>(
+        source: WarixDataSubject<S>, sourceKey: K, targetKey: M, options: IWarixDataSubjectBindingOptions<S[ K ], T[ M ]> = {}
+    ) {
+        const toTarget = options.toTarget || fnIdentity;
+        const toSource = options.toSource || fnIdentity;
+        const binding = new Subscription();
+        let propagating = false;
+        let lastToSource: S[ K ];
+        let lastToTarget: T[ M ];
+        const propagate = <R extends {}, P extends keyof R>(subject: WarixDataSubject<R>, key: P, value: R[ P ]) => {
+            propagating = true;
+            try {
+                if (!subject.equalityFor([ key as string ])(subject.peekKey(key), value)) {
+                    subject.set(key, value);
+                }
+            } finally {
+                propagating = false;
+            }
+        };
+        const fromSource = (skipped: number) => source.get(sourceKey).pipe(skip(skipped)).subscribe(value => {
+            if (!propagating && value !== lastToSource) {
+                lastToSource = undefined;
+                lastToTarget = toTarget(value);
+                propagate(this, targetKey, lastToTarget);
+            }
+        });
+        const fromTarget = (skipped: number) => this.get(targetKey).pipe(skip(skipped)).subscribe(value => {
+            if (!propagating && value !== lastToTarget) {
+                lastToTarget = undefined;
+                lastToSource = toSource(value);
+                propagate(source, sourceKey, lastToSource);
+            }
+        });
+        if (options.initial === 'target' && !options.oneWay) {
+            binding.add(fromTarget(0));
+            binding.add(fromSource(1));
+        } else {
+            binding.add(fromSource(0));
+            if (!options.oneWay) {
+                binding.add(fromTarget(1));
+            }
+        }
+        return binding;
+    }
+
+    public errorsFor<M extends keyof T>(key: M) {
+        return this.requireValidation().errorsIn([ key as string ]);
+    }
+
     public deleteKey<M extends keyof T>(key: M) {
         const nxt = cloneDeep(this.getValue());
         delete nxt[key];
         this.next(nxt);
         return this;
     }
+
+    public changes(): WarixDataSubjectChanges<T> {
+        const baseline = this.requireTracking().value;
+        return fnDirtyKeys(this.value, baseline, this.trackingEquals).reduce((changes, key) => {
+            changes[ key ] = { currentValue: this.value[ key ], previousValue: baseline[ key ] };
+            return changes;
+        }, empty());
+    }
+
+    public commit() {
+        this.requireTracking().next(cloneDeep(this.value));
+        return this;
+    }
+
+    public revert(keys?: (keyof T)[]) {
+        const baseline = cloneDeep(this.requireTracking().value);
+        if (!keys) {
+            this.next(Object.assign(empty(), baseline));
+            return this;
+        }
+        const nxt = Object.assign(empty(), this.value);
+        keys.forEach(key => {
+            if (key in baseline) {
+                nxt[ key ] = baseline[ key ];
+            } else {
+                delete nxt[ key ];
+            }
+        });
+        this.next(nxt);
+        return this;
+    }
+
+    public complete() {
+        this.flush();
+        if (this.baseline$) {
+            this.baseline$.complete();
+        }
+        if (this.validation) {
+            this.validation.complete();
+        }
+        super.complete();
+    }
 }
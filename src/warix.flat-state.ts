@@ -1,45 +1,127 @@
-import { get as xget, isNil, random, times } from 'lodash';
-import { Observable } from 'rxjs';
-import { distinctUntilChanged, pluck } from 'rxjs/operators';
+import { get as xget, isBoolean, isNil, random, times } from 'lodash';
+import { from, isObservable, Observable, Subject } from 'rxjs';
+import { distinctUntilChanged, filter, map, pluck } from 'rxjs/operators';
 import * as ax from 'warix-core/warix.array-operations';
+import { fnEnsureArray, fnExtractPathValues, fnIsWithinPath, fnMutateDeepDelete, fnMutateDeepSet, fnOverlapsPattern, fnPeekPath, fnToPath } from './flat-state/common';
+import { IWarixFlatStateActionLogOptions, WarixFlatStateActionLog } from './flat-state/warix.flat-state-action-log';
+import { applyJsonPatch, createJsonPatch, IWarixJsonPatchOperation } from './flat-state/warix.flat-state-patch';
+import { deepFreeze, produce } from './flat-state/warix.flat-state-draft';
+import { IWarixEntityCollectionOptions, WarixFlatStateEntityCollection } from './flat-state/warix.flat-state-entities';
+import { WarixFlatStateSlice } from './flat-state/warix.flat-state-slice';
+import { IWarixFlatStateSyncOptions, WarixFlatStateSync } from './flat-state/warix.flat-state-sync';
+import { WarixStateArrayItem, WarixStatePath, WarixStatePathValue, WarixStateResult } from './flat-state/warix.flat-state-types';
+import { IWarixFlatStateMiddleware, IWarixFlatStatePendingWrite } from './flat-state/warix.flat-state-middleware';
+import { IWarixFlatStatePersistenceOptions, WarixFlatStatePersistence } from './flat-state/warix.flat-state-persistence';
+import {
+    IWarixFlatStateValidationOptions, WarixFlatStateAsyncValidator, WarixFlatStateValidation, WarixFlatStateValidator
+} from './flat-state/warix.flat-state-validation';
 import { WarixDataSubject } from './warix.data-subject';
 
 interface IKeyed {
     [ key: string ]: any;
 }
 
-const fnEnsureArray = (a: string | string[]) => Array.isArray(a) ? a : a.split('.');
+export type WarixFlatStateOperation = 'set' | 'setIn' | 'deleteIn' | 'apply' | 'patch' | 'update' | 'arrayPush' | 'arrayPop' | 'arrayShift' | 'arrayUnshift' | 'arrayInsert' |
+    'arrayRemoveAt' | 'arrayRemove' | 'arrayRemoveWhere' | 'arrayReverse' | 'arrayDistinct' | 'arrayShuffle';
 
-const fnExtractPathValues = (data: any, path: string | string[]) => {
-    const results = [];
-    fnEnsureArray(path).forEach((property, index) => {
-        if (index === 0) {
-            results.push({ property, value: data[ property ] });
-        } else {
-            results.push({
-                property,
-                value: isNil(results[ index - 1 ]) ? undefined : results[ index - 1 ].value[ property ] });
-        }
-    });
-    return [ { property: null, value: data }, ...results ].reverse();
-};
+interface IWarixFlatStateWrite {
+    operation: WarixFlatStateOperation;
+    path: string[];
+    previousValue?: any;
+    remove?: boolean;
+    value: any;
+}
 
-const fnMutateDeepSet = (data: any, path: string | string[], newValue: any) => {
-    const extraction = fnExtractPathValues(data, path);
-    const toModify = extraction.shift();
-    for (let i = 0; i < extraction.length; i++) {
-        const root = Array.isArray(extraction[i].value) ? [] : Object.create(null);
-        if (i === 0) {
-            extraction[i].value = Object.assign(root, extraction[i].value, { [ toModify.property ]: newValue });
-        } else {
-            extraction[i].value = Object.assign(root, extraction[i].value, { [ extraction[ i - 1].property ]: extraction[i - 1].value });
-        }
+export interface IWarixFlatStateChange {
+    currentValue: any;
+    operation: WarixFlatStateOperation;
+    path: string[];
+    previousValue: any;
+}
+
+interface IWarixFlatStatePendingAction {
+    action: string;
+    payload: any;
+}
+
+interface IWarixFlatStateStatus {
+    canRedo: boolean;
+    canUndo: boolean;
+    inTransaction: boolean;
+}
+
+export interface IWarixFlatStateHistoryOptions {
+    /**
+     * Paths excluded from the history. Writes that only touch these paths (or their children) are not recorded and are kept as they are on undo / redo
+     */
+    exclude?: (string | string[])[];
+    /**
+     * Maximum number of undo entries to keep. Unlimited by default
+     */
+    limit?: number;
+}
+
+export interface IWarixFlatStateSelector<T = any> {
+    /**
+     * Observable to the selected value. Emits only when the projected value changes
+     */
+    readonly source$: Observable<T>;
+    /**
+     * Obtains the current selected value
+     */
+    peek(): T;
+}
+
+export type WarixFlatStateSelectorInput<T = any> = string | string[] | IWarixFlatStateSelector<T>;
+
+export interface IWarixFlatStateOptions {
+    /**
+     * Enables the action log recording every emitted state. Use true for the default configuration
+     */
+    actionLog?: boolean | IWarixFlatStateActionLogOptions;
+    /**
+     * Enables the undo / redo history. Use true for the default configuration
+     */
+    history?: boolean | IWarixFlatStateHistoryOptions;
+    /**
+     * Deep freezes every emitted state so accidental mutations throw (in strict mode code). Intended for development
+     */
+    strict?: boolean;
+    /**
+     * Validation configuration
+     */
+    validation?: IWarixFlatStateValidationOptions;
+}
+
+const fnApplyWrite = (data: any, write: IWarixFlatStateWrite) => {
+    if (write.remove) {
+        return fnMutateDeepDelete(data, write.path);
     }
-    return extraction[ extraction.length - 1 ].value;
+    return write.path.length === 0 ? write.value : fnMutateDeepSet(data, write.path, write.value);
 };
 
-export class WarixFlatState {
+const fnIsSelector = (input: WarixFlatStateSelectorInput): input is IWarixFlatStateSelector => {
+    return !isNil(input) && !Array.isArray(input) && typeof(input) === 'object' && typeof(input.peek) === 'function';
+};
+
+export class WarixFlatState<S extends {} = IKeyed> {
     private readonly state: WarixDataSubject<IKeyed>;
+    private readonly actionLog: WarixFlatStateActionLog;
+    private readonly changesSource$ = new Subject<IWarixFlatStateChange>();
+    private readonly patchesSource$ = new Subject<IWarixJsonPatchOperation[]>();
+    private readonly status$ = new WarixDataSubject<IWarixFlatStateStatus>({ canRedo: false, canUndo: false, inTransaction: false });
+    private readonly historyEnabled: boolean;
+    private readonly historyExclude: string[][];
+    private readonly historyLimit: number;
+    private readonly strict: boolean;
+    private readonly validation: WarixFlatStateValidation;
+    private readonly middlewares: IWarixFlatStateMiddleware[] = [];
+    private past: IKeyed[] = [];
+    private future: IKeyed[] = [];
+    private draft: IKeyed = null;
+    private draftWrites: IWarixFlatStateWrite[] = [];
+    private transactionDepth = 0;
+    private pendingAction: IWarixFlatStatePendingAction = null;
 
     /**
      * Gets the underlying Observable source
@@ -48,8 +130,91 @@ export class WarixFlatState {
         return this.state.asObservable();
     }
 
-    constructor(initial?: IKeyed) {
-        this.state = new WarixDataSubject<IKeyed>(initial || Object.create(null));
+    /**
+     * Observable emitting every write applied to the emitted states
+     */
+    public get changes$() {
+        return this.changesSource$.asObservable();
+    }
+
+    /**
+     * Observable emitting the JSON patch document (RFC 6902) of every emitted change
+     */
+    public get patches$() {
+        return this.patchesSource$.asObservable();
+    }
+
+    /**
+     * Gets the recorded action log entries
+     * @throws {InvalidActionLogOperation} If the action log is not enabled
+     */
+    public get actionLogEntries() {
+        return this.requireActionLog().entries;
+    }
+    public get actionLogEntries$() {
+        return this.requireActionLog().entries$;
+    }
+
+    /**
+     * Gets the current validation errors keyed by property path
+     */
+    public get errors() {
+        return this.validation.errors;
+    }
+    public get errors$() {
+        return this.validation.errors$;
+    }
+
+    /**
+     * Gets whether there are history entries to undo
+     */
+    public get canUndo() {
+        return this.status$.peekKey('canUndo');
+    }
+    public get canUndo$() {
+        return this.status$.get('canUndo');
+    }
+
+    /**
+     * Gets whether there are history entries to redo
+     */
+    public get canRedo() {
+        return this.status$.peekKey('canRedo');
+    }
+    public get canRedo$() {
+        return this.status$.get('canRedo');
+    }
+
+    /**
+     * Gets whether a transaction is currently running
+     */
+    public get inTransaction() {
+        return this.status$.peekKey('inTransaction');
+    }
+    public get inTransaction$() {
+        return this.status$.get('inTransaction');
+    }
+
+    private get current() {
+        return this.transactionDepth > 0 ? this.draft : this.state.getValue();
+    }
+
+    constructor(initial?: S, options?: IWarixFlatStateOptions) {
+        const actionLog = (options || {}).actionLog;
+        const history = (options || {}).history;
+        const validation = (options || {}).validation || {};
+        const historyOptions: IWarixFlatStateHistoryOptions = isBoolean(history) || isNil(history) ? {} : history;
+
+        this.strict = !!(options || {}).strict;
+        this.state = new WarixDataSubject<IKeyed>(this.freeze(initial || Object.create(null)));
+        this.historyEnabled = !!history;
+        this.historyExclude = (historyOptions.exclude || []).map(fnEnsureArray);
+        this.historyLimit = isNil(historyOptions.limit) ? Infinity : Math.max(0, historyOptions.limit);
+        this.validation = new WarixFlatStateValidation(validation.mode);
+        this.actionLog = actionLog ? new WarixFlatStateActionLog(isBoolean(actionLog) ? {} : actionLog) : null;
+        if (this.actionLog) {
+            this.actionLog.record('@@init', undefined, [ [] ], this.state.getValue());
+        }
     }
 
     /**
@@ -59,34 +224,406 @@ export class WarixFlatState {
         return times(4, i => random(0x1111, 0xFFFF).toString(16)).join('-');
     }
 
-    private inArray(path: string | string[], action: (arr: any[]) => ax.IWarixArrayOperationChange<any>) {
-        const arr = xget(this.state.getValue(), fnEnsureArray(path));
+    private commit(requested: IWarixFlatStateWrite[]) {
+        const writes = this.middlewares.length > 0 ? this.intercept(requested) : requested;
+        if (writes.length === 0) {
+            return this;
+        }
+        let next = this.current;
+        const applied = writes.map(write => {
+            const previousValue = fnExtractPathValues(next, write.path)[ 0 ].value;
+            next = fnApplyWrite(next, write);
+            return Object.assign({}, write, { previousValue });
+        });
+        const rejected = this.validation.mode === 'reject' ? this.validation.preview(next, applied.map(write => write.path)) : {};
+        if (Object.keys(rejected).length > 0) {
+            const details = Object.keys(rejected).map(key => `${ key }: ${ rejected[ key ].join(', ') }`).join('; ');
+            throw new Error(`WarixFlatStateWriteRejected. The write was rejected by the validators. ${ details }`);
+        }
+        if (this.transactionDepth > 0) {
+            this.draft = next;
+            this.draftWrites.push(...applied);
+        } else {
+            this.emit(next, applied, applied[ 0 ].operation);
+        }
+        return this;
+    }
+
+    private emit(next: IKeyed, writes: IWarixFlatStateWrite[], action: string) {
+        const pending = this.pendingAction || { action, payload: undefined };
+        const previous = this.state.getValue();
+        this.pendingAction = null;
+        this.recordHistory(previous, writes);
+        this.state.next(this.freeze(next));
+        this.validation.validate(next, writes.map(write => write.path));
+        this.validation.validateAsync(next, writes.map(write => write.path));
+        if (this.actionLog) {
+            this.actionLog.record(pending.action, pending.payload, writes.map(write => write.path), next);
+        }
+        const changes = writes.map(write => ({
+            currentValue: write.remove ? undefined : write.value,
+            operation: write.operation,
+            path: write.path,
+            previousValue: write.previousValue
+        }) as IWarixFlatStateChange);
+        changes.forEach(change => this.changesSource$.next(change));
+        const patch = createJsonPatch(writes, previous);
+        if (patch.length > 0) {
+            this.patchesSource$.next(patch);
+        }
+        this.middlewares.filter(middleware => middleware.committed).forEach(middleware => {
+            const effect = middleware.committed(changes, next);
+            if (isObservable(effect) || effect instanceof Promise) {
+                from(effect).subscribe(() => { }, () => { });
+            }
+        });
+    }
+
+    private intercept(writes: IWarixFlatStateWrite[]) {
+        const previousState = this.current;
+        const queue = writes.map(write => ({ operation: write.operation, path: write.path, previousState, remove: !!write.remove, value: write.value }));
+        const context = {
+            dispatch: (path: string | string[], value: any, operation: WarixFlatStateOperation = 'setIn') => {
+                queue.push({ operation, path: fnEnsureArray(path), previousState, remove: false, value });
+            },
+            state: this
+        };
+        const accepted: IWarixFlatStateWrite[] = [];
+        for (let index = 0; index < queue.length; index++) {
+            const pending = this.middlewares.filter(middleware => middleware.write).reduce((write: IWarixFlatStatePendingWrite, middleware) => {
+                if (write === null) {
+                    return null;
+                }
+                const result = middleware.write(write, context);
+                return result === undefined ? write : result as IWarixFlatStatePendingWrite;
+            }, queue[ index ]);
+            if (pending !== null) {
+                accepted.push({ operation: pending.operation, path: pending.path, remove: pending.remove, value: pending.value });
+            }
+        }
+        return accepted;
+    }
+
+    private recordHistory(previous: IKeyed, writes: IWarixFlatStateWrite[]) {
+        const recordable = this.historyEnabled && writes.some(write => {
+            return (write.previousValue !== write.value || write.remove) && !this.historyExclude.some(excluded => fnIsWithinPath(write.path, excluded));
+        });
+        if (recordable) {
+            this.past.push(previous);
+            if (this.past.length > this.historyLimit) {
+                this.past.splice(0, this.past.length - this.historyLimit);
+            }
+            this.future = [];
+            this.updateHistory();
+        }
+    }
+
+    private restore(snapshot: IKeyed, action: string) {
+        const current = this.state.getValue();
+        const next = this.historyExclude.reduce((root, excluded) => {
+            const value = fnPeekPath(current, excluded);
+            return fnPeekPath(root, excluded) === value ? root : fnMutateDeepSet(root, excluded, value);
+        }, snapshot);
+        this.replace(next);
+        this.updateHistory();
+        if (this.actionLog) {
+            this.actionLog.record(action, undefined, [ [] ], next);
+        }
+    }
+
+    private replace(next: IKeyed) {
+        const previous = this.state.getValue();
+        this.state.next(this.freeze(next));
+        this.validation.validate(next, [ [] ]);
+        this.validation.validateAsync(next, [ [] ]);
+        if (previous !== next) {
+            this.changesSource$.next({ currentValue: next, operation: 'set', path: [], previousValue: previous });
+            this.patchesSource$.next(createJsonPatch([ { path: [], previousValue: previous, value: next } ], previous));
+        }
+    }
+
+    private assertNotInTransaction(operation: string) {
+        if (this.transactionDepth > 0) {
+            throw new Error(`InvalidTransactionOperation. ${ operation } can not be performed inside a transaction`);
+        }
+    }
+
+    private requireActionLog() {
+        if (!this.actionLog) {
+            throw new Error(`InvalidActionLogOperation. The action log is not enabled`);
+        }
+        return this.actionLog;
+    }
+
+    private updateHistory() {
+        this.status$.patch({ canRedo: this.future.length > 0, canUndo: this.past.length > 0 });
+    }
+
+    private freeze<T>(value: T) {
+        return this.strict ? deepFreeze(value) : value;
+    }
+
+    private assignIn(root: string[], value: IKeyed) {
+        return this.commit(Object.keys(value).map(key => ({ operation: 'patch', path: [ ...root, key ], value: value[ key ] }) as IWarixFlatStateWrite));
+    }
+
+    private inArray(operation: WarixFlatStateOperation, path: WarixStatePath<S>, action: (arr: any[]) => ax.IWarixArrayOperationChange<any>) {
+        const arr = fnPeekPath(this.current, fnToPath(path));
         if (arr === null || arr === undefined || Array.isArray(arr)) {
-            return this.setIn(path, action(arr || []).newValue);
+            return this.commit([ { operation, path: fnToPath(path), value: action(arr || []).newValue } ]);
         } else {
             throw new Error(`InvalidArrayOperation. Array operations can only be performed on Arrays. Expected Array but found ${ typeof(arr) }`);
         }
     }
 
     public complete() {
+        this.changesSource$.complete();
+        if (this.actionLog) {
+            this.actionLog.complete();
+        }
+        this.validation.complete();
+        this.patchesSource$.complete();
+        this.status$.complete();
         this.state.complete();
     }
 
+    /**
+     * Restores the state previous to the last recorded write
+     */
+    public undo() {
+        this.assertNotInTransaction('undo');
+        if (this.past.length > 0) {
+            this.future.push(this.state.getValue());
+            this.restore(this.past.pop(), 'undo');
+        }
+        return this;
+    }
+
+    /**
+     * Restores the state previous to the last undo
+     */
+    public redo() {
+        this.assertNotInTransaction('redo');
+        if (this.future.length > 0) {
+            this.past.push(this.state.getValue());
+            this.restore(this.future.pop(), 'redo');
+        }
+        return this;
+    }
+
+    /**
+     * Runs the provided function as an atomic transaction. All writes are applied to a working copy of the state that is emitted once when the
+     * outermost transaction ends. If the function throws, every write performed by it is rolled back and the error is rethrown
+     * @param fn Function performing the writes
+     */
+    public transaction(fn: (state: this) => void) {
+        const savepoint = this.current;
+        const savedWrites = this.draftWrites.length;
+        if (this.transactionDepth === 0) {
+            this.draft = savepoint;
+            this.status$.set('inTransaction', true);
+        }
+        this.transactionDepth++;
+        try {
+            fn(this);
+        } catch (e) {
+            this.draft = savepoint;
+            this.draftWrites.splice(savedWrites);
+            throw e;
+        } finally {
+            this.transactionDepth--;
+            if (this.transactionDepth === 0) {
+                const next = this.draft;
+                const writes = this.draftWrites;
+                this.draft = null;
+                this.draftWrites = [];
+                this.status$.set('inTransaction', false);
+                if (writes.length > 0) {
+                    this.emit(next, writes, 'transaction');
+                }
+            }
+        }
+        return this;
+    }
+
+    /**
+     * Mirrors the provided paths with other instances through the provided transport
+     * @param options Synchronization options
+     */
+    public sync(options: IWarixFlatStateSyncOptions) {
+        return new WarixFlatStateSync(this, options);
+    }
+
+    /**
+     * Registers a middleware intercepting every write. Middlewares run in registration order
+     * @param middleware Middleware to register
+     */
+    public use(middleware: IWarixFlatStateMiddleware) {
+        this.middlewares.push(middleware);
+        return this;
+    }
+
+    /**
+     * Unregisters a middleware
+     * @param middleware Registered middleware
+     */
+    public removeMiddleware(middleware: IWarixFlatStateMiddleware) {
+        const index = this.middlewares.indexOf(middleware);
+        if (index > -1) {
+            this.middlewares.splice(index, 1);
+        }
+        return this;
+    }
+
+    /**
+     * Registers a validator for the properties matching the provided path pattern
+     * @param pattern Path pattern. Use * to match any property, e.g. items.*.quantity
+     * @param validator Validation function returning the error messages, or null when the value is valid
+     */
+    public addValidator<T = any>(pattern: string | string[], validator: WarixFlatStateValidator<T>) {
+        this.validation.add(pattern, validator, false);
+        this.validation.validate(this.current, [ [] ]);
+        return this;
+    }
+
+    /**
+     * Registers an async validator for the properties matching the provided path pattern. Running validations are cancelled when the property changes again
+     * @param pattern Path pattern. Use * to match any property, e.g. items.*.quantity
+     * @param validator Validation function returning an Observable to the error messages, or null when the value is valid
+     */
+    public addAsyncValidator<T = any>(pattern: string | string[], validator: WarixFlatStateAsyncValidator<T>) {
+        this.validation.add(pattern, validator, true);
+        this.validation.validateAsync(this.current, [ [] ]);
+        return this;
+    }
+
+    /**
+     * Unregisters a validator previously registered with the provided path pattern
+     * @param pattern Path pattern
+     * @param validator Registered validation function
+     */
+    public removeValidator(pattern: string | string[], validator: WarixFlatStateValidator | WarixFlatStateAsyncValidator) {
+        this.validation.remove(pattern, validator);
+        this.validation.validate(this.current, [ [] ]);
+        return this;
+    }
+
+    /**
+     * Obtains an observable to the validation errors of the provided path in the state
+     * @param path Path to the property
+     */
+    public errorsIn(path: string | string[]) {
+        return this.validation.errorsIn(path);
+    }
+
+    /**
+     * Persists the state to a storage, loading the previously persisted state first
+     * @param options Persistence options
+     */
+    public persist(options: IWarixFlatStatePersistenceOptions) {
+        return new WarixFlatStatePersistence(this, options);
+    }
+
+    /**
+     * Runs the provided function as a transaction recorded in the action log with the provided action name and payload
+     * @param action Action name
+     * @param payload Action payload
+     * @param fn Function performing the writes
+     */
+    public dispatch(action: string, payload: any, fn: (state: this) => void) {
+        if (isNil(this.pendingAction)) {
+            this.pendingAction = { action, payload };
+        }
+        try {
+            return this.transaction(fn);
+        } finally {
+            if (this.transactionDepth === 0) {
+                this.pendingAction = null;
+            }
+        }
+    }
+
+    /**
+     * Emits the state recorded at the provided action log index. The action log and the history are not modified
+     * @param index Action log entry index
+     * @throws {InvalidActionLogOperation} If the action log is not enabled or the index does not exist
+     */
+    public jumpTo(index: number) {
+        this.assertNotInTransaction('jumpTo');
+        const entry = this.requireActionLog().entries[ index ];
+        if (!entry) {
+            throw new Error(`InvalidActionLogOperation. Action log entry ${ index } does not exist`);
+        }
+        this.replace(entry.state);
+        return this;
+    }
+
+    /**
+     * Emits in order every state recorded in the action log up to the provided index
+     * @param toIndex Last action log entry index to replay. Defaults to the last entry
+     * @throws {InvalidActionLogOperation} If the action log is not enabled
+     */
+    public replay(toIndex?: number) {
+        const entries = this.requireActionLog().entries;
+        const last = isNil(toIndex) ? entries.length - 1 : Math.min(toIndex, entries.length - 1);
+        for (let index = 0; index <= last; index++) {
+            this.jumpTo(index);
+        }
+        return this;
+    }
+
+    /**
+     * Exports the action log as JSON
+     * @throws {InvalidActionLogOperation} If the action log is not enabled
+     */
+    public exportActionLog() {
+        return this.requireActionLog().export();
+    }
+
+    /**
+     * Imports an action log exported with exportActionLog and emits its last recorded state
+     * @param json Exported action log
+     * @throws {InvalidActionLogOperation} If the action log is not enabled
+     */
+    public importActionLog(json: string) {
+        const actionLog = this.requireActionLog();
+        actionLog.import(json);
+        return actionLog.entries.length > 0 ? this.jumpTo(actionLog.entries.length - 1) : this;
+    }
+
+    /**
+     * Removes all undo / redo history entries
+     */
+    public clearHistory() {
+        this.past = [];
+        this.future = [];
+        this.updateHistory();
+        return this;
+    }
+
     /**
      * Sets the underlying state value with the a deep clone of the provided value
      * @param value New value
      */
-    public set(value: IKeyed) {
-        this.state.next(value);
-        return this;
+    public set(value: S) {
+        return this.commit([ { operation: 'set', path: [], value } ]);
     }
 
     /**
      * Obtains an observable to the provided path in the state
      * @param path Path to the property
      */
-    public getIn<T = any>(path: string | string[]) {
-        return this.state.pipe(pluck(...fnEnsureArray(path)), distinctUntilChanged()) as Observable<T>;
+    public getIn<T = never, P extends WarixStatePath<S> = WarixStatePath<S>>(path: P) {
+        return this.state.pipe(pluck(...fnToPath(path)), distinctUntilChanged()) as Observable<WarixStateResult<T, S, P>>;
+    }
+
+    /**
+     * Obtains an observable to the writes affecting the paths matching the provided pattern, including writes to their parents and children
+     * @param pattern Path pattern. Use * to match any property, e.g. items.*.quantity
+     */
+    public watch(pattern: string | string[]) {
+        const path = fnEnsureArray(pattern);
+        return this.changesSource$.pipe(filter(change => fnOverlapsPattern(change.path, path)));
     }
 
     /**
@@ -94,24 +631,82 @@ export class WarixFlatState {
      * @param path Path to the property
      * @param value Value to deep clone assign
      */
-    public setIn(path: string | string[], value: any) {
-        this.state.next(fnMutateDeepSet(this.state.getValue(), path, value));
-        return this;
+    public setIn<P extends WarixStatePath<S>>(path: P, value: WarixStatePathValue<S, P>) {
+        return this.commit([ { operation: 'setIn', path: fnToPath(path), value } ]);
+    }
+
+    /**
+     * Removes the property at the provided path in the state
+     * @param path Path to the property
+     */
+    public deleteIn<P extends WarixStatePath<S>>(path: P) {
+        return this.commit([ { operation: 'deleteIn', path: fnToPath(path), remove: true, value: undefined } ]);
+    }
+
+    /**
+     * Applies a JSON patch document (RFC 6902) as a single transaction
+     * @param ops Patch operations
+     * @throws {WarixJsonPatchTestFailed} If a test operation fails. No operation is applied
+     * @throws {InvalidPatchOperation} If an operation references a path that does not exist. No operation is applied
+     */
+    public applyPatch(ops: IWarixJsonPatchOperation[]) {
+        return applyJsonPatch(this, ops);
     }
 
     /**
      * Obtains a deep clone to the underlying state value
      */
     public peek() {
-        return this.state.getValue();
+        return this.current as S;
     }
 
     /**
      * Obtains a deep clone to the property in the underlying state path
      * @param path Path to the property
      */
-    public peekKey<T = any>(path: string | string[]) {
-        return xget(this.state.getValue(), fnEnsureArray(path)) as T;
+    public peekKey<T = never, P extends WarixStatePath<S> = WarixStatePath<S>>(path: P) {
+        return xget(this.current, fnToPath(path)) as WarixStateResult<T, S, P>;
+    }
+
+    /**
+     * Creates a memoized selector projecting the values of the provided inputs. The projector only runs again when any of the input values changes by reference
+     * @param inputs Paths in the state or other selectors to read the values from
+     * @param projector Projection function receiving the input values in the same order
+     */
+    public select<A = any, M = any>(a: WarixFlatStateSelectorInput<A>, projector: (a: A) => M): IWarixFlatStateSelector<M>;
+    public select<A = any, B = any, M = any>(a: WarixFlatStateSelectorInput<A>, b: WarixFlatStateSelectorInput<B>, projector: (a: A, b: B) => M): IWarixFlatStateSelector<M>;
+    public select<A = any, B = any, C = any, M = any>(a: WarixFlatStateSelectorInput<A>, b: WarixFlatStateSelectorInput<B>, c: WarixFlatStateSelectorInput<C>,
+        projector: (a: A, b: B, c: C) => M): IWarixFlatStateSelector<M>;
+    public select<A = any, B = any, C = any, D = any, M = any>(a: WarixFlatStateSelectorInput<A>, b: WarixFlatStateSelectorInput<B>, c: WarixFlatStateSelectorInput<C>,
+        d: WarixFlatStateSelectorInput<D>, projector: (a: A, b: B, c: C, d: D) => M): IWarixFlatStateSelector<M>;
+    public select<A = any, B = any, C = any, D = any, E = any, M = any>(a: WarixFlatStateSelectorInput<A>, b: WarixFlatStateSelectorInput<B>, c: WarixFlatStateSelectorInput<C>,
+        d: WarixFlatStateSelectorInput<D>, e: WarixFlatStateSelectorInput<E>, projector: (a: A, b: B, c: C, d: D, e: E) => M): IWarixFlatStateSelector<M>;
+    public select<A = any, B = any, C = any, D = any, E = any, F = any, M = any>(a: WarixFlatStateSelectorInput<A>, b: WarixFlatStateSelectorInput<B>,
+        c: WarixFlatStateSelectorInput<C>, d: WarixFlatStateSelectorInput<D>, e: WarixFlatStateSelectorInput<E>, f: WarixFlatStateSelectorInput<F>,
+        projector: (a: A, b: B, c: C, d: D, e: E, f: F) => M): IWarixFlatStateSelector<M>;
+    public select(...args: (WarixFlatStateSelectorInput | ((...values: any[]) => any))[]) {
+        const inputs = args.slice(0, -1).filter((input): input is WarixFlatStateSelectorInput => typeof(input) !== 'function');
+        const projector = args[ args.length - 1 ];
+        if (typeof(projector) !== 'function') {
+            throw new Error(`InvalidSelectorOperation. The last argument must be the projector function`);
+        }
+        const readers = inputs.map(input => fnIsSelector(input) ? () => input.peek() : () => fnPeekPath(this.current, fnEnsureArray(input)));
+        let lastValues: any[] = null;
+        let lastResult: any;
+
+        const peek = () => {
+            const values = readers.map(reader => reader());
+            if (lastValues === null || values.some((value, index) => value !== lastValues[ index ])) {
+                lastValues = values;
+                lastResult = projector(...values);
+            }
+            return lastResult;
+        };
+
+        return Object.freeze({
+            peek,
+            source$: this.state.pipe(map(() => peek()), distinctUntilChanged())
+        }) as IWarixFlatStateSelector;
     }
 
     /**
@@ -119,9 +714,21 @@ export class WarixFlatState {
      * @param path Path to the property
      * @param action Transformation action
      */
-    public apply<T = any>(path: string | string[], action: (currentValue: T) => T) {
-        const cc = xget(this.state.getValue(), path);
-        return this.setIn(path, action(cc));
+    public apply<T = never, P extends WarixStatePath<S> = WarixStatePath<S>>(path: P, action: (currentValue: WarixStateResult<T, S, P>) => WarixStateResult<T, S, P>) {
+        const cc = xget(this.current, fnToPath(path));
+        return this.commit([ { operation: 'apply', path: fnToPath(path), value: action(cc) } ]);
+    }
+
+    /**
+     * Updates the value at the provided path in the state by mutating a draft of it. Only the modified branches are copied, every other branch is shared
+     * with the current value
+     * @param path Path to the property
+     * @param recipe Function mutating the draft. Returning a value other than undefined replaces the value instead
+     */
+    public update<P extends WarixStatePath<S>>(path: P, recipe: (draft: WarixStatePathValue<S, P>) => WarixStatePathValue<S, P> | void) {
+        const current = fnPeekPath(this.current, fnToPath(path));
+        const value = produce(current, recipe);
+        return value === current ? this : this.commit([ { operation: 'update', path: fnToPath(path), value } ]);
     }
 
     /**
@@ -130,8 +737,8 @@ export class WarixFlatState {
      * @param items New items to add at the end of the array
      * @throws {InvalidArrayOperation} If the provided path does not point to an array (null or undefined elements are considered empty arrays)
      */
-    public arrayPush(path: string | string[], ...items: any[]) {
-        return this.inArray(path, a => ax.arrayPush(a, ...items));
+    public arrayPush<P extends WarixStatePath<S>>(path: P, ...items: WarixStateArrayItem<S, P>[]) {
+        return this.inArray('arrayPush', path, a => ax.arrayPush(a, ...items));
     }
 
     /**
@@ -139,8 +746,8 @@ export class WarixFlatState {
      * @param path Path to the property
      * @throws {InvalidArrayOperation} If the provided path does not point to an array (null or undefined elements are considered empty arrays)
      */
-    public arrayPop(path: string | string[]) {
-        return this.inArray(path, a => ax.arrayPop(a));
+    public arrayPop<P extends WarixStatePath<S>>(path: P) {
+        return this.inArray('arrayPop', path, a => ax.arrayPop(a));
     }
 
     /**
@@ -148,8 +755,8 @@ export class WarixFlatState {
      * @param path Path to the property
      * @throws {InvalidArrayOperation} If the provided path does not point to an array (null or undefined elements are considered empty arrays)
      */
-    public arrayShift(path: string | string[]) {
-        return this.inArray(path, a => ax.arrayShift(a));
+    public arrayShift<P extends WarixStatePath<S>>(path: P) {
+        return this.inArray('arrayShift', path, a => ax.arrayShift(a));
     }
 
     /**
@@ -158,8 +765,8 @@ export class WarixFlatState {
      * @param items New items to add at the start of the array
      * @throws {InvalidArrayOperation} If the provided path does not point to an array (null or undefined elements are considered empty arrays)
      */
-    public arrayUnshift(path: string | string[], ...items: any[]) {
-        return this.inArray(path, a => ax.arrayUnshift(a, ...items));
+    public arrayUnshift<P extends WarixStatePath<S>>(path: P, ...items: WarixStateArrayItem<S, P>[]) {
+        return this.inArray('arrayUnshift', path, a => ax.arrayUnshift(a, ...items));
     }
 
     /**
@@ -169,8 +776,8 @@ export class WarixFlatState {
      * @param items New items to insert in the array
      * @throws {InvalidArrayOperation} If the provided path does not point to an array (null or undefined elements are considered empty arrays)
      */
-    public arrayInsert(path: string | string[], index: number, ...items: any[]) {
-        return this.inArray(path, a => ax.arrayInsert(a, index, ...items));
+    public arrayInsert<P extends WarixStatePath<S>>(path: P, index: number, ...items: WarixStateArrayItem<S, P>[]) {
+        return this.inArray('arrayInsert', path, a => ax.arrayInsert(a, index, ...items));
     }
 
     /**
@@ -180,8 +787,8 @@ export class WarixFlatState {
      * @param deleteCount Number of elements to remove
      * @throws {InvalidArrayOperation} If the provided path does not point to an array (null or undefined elements are considered empty arrays)
      */
-    public arrayRemoveAt(path: string | string[], index: number, deleteCount = 1) {
-        return this.inArray(path, a => ax.arrayRemoveAt(a, index, deleteCount));
+    public arrayRemoveAt<P extends WarixStatePath<S>>(path: P, index: number, deleteCount = 1) {
+        return this.inArray('arrayRemoveAt', path, a => ax.arrayRemoveAt(a, index, deleteCount));
     }
 
     /**
@@ -190,8 +797,8 @@ export class WarixFlatState {
      * @param items Elements to remove
      * @throws {InvalidArrayOperation} If the provided path does not point to an array (null or undefined elements are considered empty arrays)
      */
-    public arrayRemove(path: string | string[], ...items: any[]) {
-        return this.inArray(path, a => ax.arrayRemove(a, ...items));
+    public arrayRemove<P extends WarixStatePath<S>>(path: P, ...items: WarixStateArrayItem<S, P>[]) {
+        return this.inArray('arrayRemove', path, a => ax.arrayRemove(a, ...items));
     }
 
     /**
@@ -200,8 +807,8 @@ export class WarixFlatState {
      * @param condition Evaluation function. Return true to remove the item
      * @throws {InvalidArrayOperation} If the provided path does not point to an array (null or undefined elements are considered empty arrays)
      */
-    public arrayRemoveWhere(path: string | string[], condition: (value: any, index: number, array: any[]) => boolean) {
-        return this.inArray(path, a => ax.arrayRemoveWhere(a, condition));
+    public arrayRemoveWhere<P extends WarixStatePath<S>>(path: P, condition: (value: WarixStateArrayItem<S, P>, index: number, array: WarixStateArrayItem<S, P>[]) => boolean) {
+        return this.inArray('arrayRemoveWhere', path, a => ax.arrayRemoveWhere(a, condition));
     }
 
     /**
@@ -209,8 +816,8 @@ export class WarixFlatState {
      * @param path Path to the property
      * @throws {InvalidArrayOperation} If the provided path does not point to an array (null or undefined elements are considered empty arrays)
      */
-    public arrayReverse(path: string | string[]) {
-        return this.inArray(path, a => ax.arrayRevese(a));
+    public arrayReverse<P extends WarixStatePath<S>>(path: P) {
+        return this.inArray('arrayReverse', path, a => ax.arrayRevese(a));
     }
 
     /**
@@ -218,8 +825,8 @@ export class WarixFlatState {
      * @param path Path to the property
      * @throws {InvalidArrayOperation} If the provided path does not point to an array (null or undefined elements are considered empty arrays)
      */
-    public arrayDistinct(path: string | string[]) {
-        return this.inArray(path, a => ax.arrayDistinct(a));
+    public arrayDistinct<P extends WarixStatePath<S>>(path: P) {
+        return this.inArray('arrayDistinct', path, a => ax.arrayDistinct(a));
     }
 
     /**
@@ -227,12 +834,41 @@ export class WarixFlatState {
      * @param path Path to the property
      * @throws {InvalidArrayOperation} If the provided path does not point to an array (null or undefined elements are considered empty arrays)
      */
-    public arrayShuffle(path: string | string[]) {
-        return this.inArray(path, a => ax.arrayShuffle(a));
+    public arrayShuffle<P extends WarixStatePath<S>>(path: P) {
+        return this.inArray('arrayShuffle', path, a => ax.arrayShuffle(a));
     }
 
-    public patch(value: Partial<IKeyed>) {
-        this.set(Object.assign(this.state.getValue(), value));
-        return this;
+    /**
+     * Assigns the provided values to the top level properties of the state
+     * @param value Values to assign
+     */
+    public patch(value: Partial<S>) {
+        return this.assignIn([], value);
+    }
+
+    /**
+     * Assigns the provided values to the properties of the object at the provided path in the state
+     * @param path Path to the object
+     * @param value Values to assign
+     */
+    public patchIn<P extends WarixStatePath<S>>(path: P, value: Partial<WarixStatePathValue<S, P>>) {
+        return this.assignIn(fnToPath(path), value);
+    }
+
+    /**
+     * Obtains a normalized entity collection stored at the provided path with the { ids, entities } shape
+     * @param path Path to the collection
+     * @param options Collection options
+     */
+    public entities<T = any>(path: WarixStatePath<S>, options?: IWarixEntityCollectionOptions<T>) {
+        return new WarixFlatStateEntityCollection<T>(this, fnToPath(path), options);
+    }
+
+    /**
+     * Obtains a scoped view of the state where every path is relative to the provided path
+     * @param path Path to the slice root
+     */
+    public slice<P extends WarixStatePath<S>>(path: P) {
+        return new WarixFlatStateSlice<WarixStatePathValue<S, P>>(this, fnToPath(path));
     }
 }
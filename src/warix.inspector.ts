@@ -0,0 +1,262 @@
+import { isNil } from 'lodash';
+import { BehaviorSubject, Observable, Subject, Subscription } from 'rxjs';
+import { WarixLocalDataSource } from './data/warix.local-data-source';
+import { WarixRemoteDataSource } from './data/warix.remote-data-source';
+import { warixStringify } from './flat-state/warix.flat-state-storage';
+import { WarixArraySubject } from './warix.array-subject';
+import { WarixDataMap } from './warix.data-map';
+import { WarixDataSubject } from './warix.data-subject';
+
+export type WarixInspectorEventType = 'next' | 'error' | 'complete' | 'subscribe' | 'unsubscribe';
+
+export type WarixInspectorTargetKind = 'arraySubject' | 'dataMap' | 'dataSubject';
+
+export type WarixInspectable = WarixDataSubject<any> | WarixArraySubject<any> | WarixDataMap<any> | WarixLocalDataSource<any> | WarixRemoteDataSource<any>;
+
+export interface IWarixInspectorEvent {
+    key?: string;
+    name: string;
+    subscribers?: number;
+    timestamp: number;
+    type: WarixInspectorEventType;
+    value?: any;
+}
+
+export interface IWarixInspectorOptions {
+    /**
+     * Maximum number of events kept in the timeline. Defaults to 1000
+     */
+    limit?: number;
+}
+
+export interface IWarixInspectorTargetSnapshot {
+    completed: boolean;
+    emissions: number;
+    error?: any;
+    kind: WarixInspectorTargetKind;
+    subscribers: { [ key: string ]: number };
+    value?: any;
+}
+
+export interface IWarixInspectorSnapshot {
+    events: IWarixInspectorEvent[];
+    targets: { [ name: string ]: IWarixInspectorTargetSnapshot };
+    timestamp: number;
+}
+
+interface IWarixInspectorEntry {
+    completed: boolean;
+    emissions: number;
+    error?: any;
+    kind: WarixInspectorTargetKind;
+    recorders: { [ key: string ]: number[] };
+    restore: () => void;
+    subscribers: { [ key: string ]: number };
+    subscription: Subscription;
+    target: WarixDataSubject<any> | WarixArraySubject<any> | WarixDataMap<any>;
+}
+
+const ROOT_KEY = '$';
+
+const fnErrorValue = (error: any) => error instanceof Error ? `${ error.name }: ${ error.message }` : error;
+
+export class WarixInspector {
+    private static readonly entries = new Map<string, IWarixInspectorEntry>();
+    private static readonly enabledSource$ = new BehaviorSubject<boolean>(false);
+    private static readonly timelineSource$ = new Subject<IWarixInspectorEvent>();
+    private static events: IWarixInspectorEvent[] = [];
+    private static limit = 1000;
+    private static nextSubscriptionId = 0;
+
+    public static get enabled() {
+        return WarixInspector.enabledSource$.getValue();
+    }
+    public static get enabled$() {
+        return WarixInspector.enabledSource$.asObservable();
+    }
+
+    /**
+     * Gets the recorded events, oldest first
+     */
+    public static get timeline() {
+        return WarixInspector.events.slice();
+    }
+    public static get timeline$() {
+        return WarixInspector.timelineSource$.asObservable();
+    }
+
+    public static get names() {
+        return Array.from(WarixInspector.entries.keys());
+    }
+
+    private static record(event: IWarixInspectorEvent) {
+        WarixInspector.events.push(event);
+        if (WarixInspector.events.length > WarixInspector.limit) {
+            WarixInspector.events.splice(0, WarixInspector.events.length - WarixInspector.limit);
+        }
+        WarixInspector.timelineSource$.next(event);
+    }
+
+    private static counted<T>(entry: IWarixInspectorEntry, name: string, key: string, source: Observable<T>) {
+        return new Observable<T>(subscriber => {
+            const id = WarixInspector.nextSubscriptionId++;
+            const recorders = entry.recorders[ key ] = entry.recorders[ key ] || [];
+            const isRecorder = () => entry.kind === 'dataMap' && recorders[ 0 ] === id;
+            const track = (type: WarixInspectorEventType, delta: number) => {
+                entry.subscribers[ key ] = (entry.subscribers[ key ] || 0) + delta;
+                WarixInspector.record({ key, name, subscribers: entry.subscribers[ key ], timestamp: Date.now(), type });
+            };
+            recorders.push(id);
+            track('subscribe', 1);
+            const subscription = source.subscribe(
+                value => {
+                    if (isRecorder()) {
+                        entry.emissions++;
+                        WarixInspector.record({ key, name, timestamp: Date.now(), type: 'next', value });
+                    }
+                    subscriber.next(value);
+                },
+                error => {
+                    if (isRecorder()) {
+                        WarixInspector.record({ key, name, timestamp: Date.now(), type: 'error', value: fnErrorValue(error) });
+                    }
+                    subscriber.error(error);
+                },
+                () => {
+                    if (isRecorder()) {
+                        WarixInspector.record({ key, name, timestamp: Date.now(), type: 'complete' });
+                    }
+                    subscriber.complete();
+                }
+            );
+            return () => {
+                subscription.unsubscribe();
+                recorders.splice(recorders.indexOf(id), 1);
+                track('unsubscribe', -1);
+            };
+        });
+    }
+
+    private static patch(target: any, method: string, entry: IWarixInspectorEntry, name: string) {
+        const original = target[ method ];
+        target[ method ] = function(key: any) {
+            return WarixInspector.counted(entry, name, String(key), original.apply(this, arguments));
+        };
+        return () => delete target[ method ];
+    }
+
+    private static observe(entry: IWarixInspectorEntry, name: string, subject: BehaviorSubject<any>) {
+        entry.subscription = subject.subscribe(
+            value => {
+                entry.emissions++;
+                WarixInspector.record({ name, timestamp: Date.now(), type: 'next', value });
+            },
+            error => {
+                entry.error = fnErrorValue(error);
+                WarixInspector.record({ name, timestamp: Date.now(), type: 'error', value: fnErrorValue(error) });
+            },
+            () => {
+                entry.completed = true;
+                WarixInspector.record({ name, timestamp: Date.now(), type: 'complete' });
+            }
+        );
+    }
+
+    private static attach(name: string, target: WarixDataSubject<any> | WarixArraySubject<any> | WarixDataMap<any>) {
+        WarixInspector.unregister(name);
+        const kind: WarixInspectorTargetKind = target instanceof WarixDataMap ? 'dataMap' : target instanceof WarixArraySubject ? 'arraySubject' : 'dataSubject';
+        const entry: IWarixInspectorEntry = {
+            completed: false, emissions: 0, kind, recorders: Object.create(null), restore: () => undefined, subscribers: Object.create(null), subscription: null, target
+        };
+        WarixInspector.entries.set(name, entry);
+        if (kind === 'dataMap') {
+            entry.restore = WarixInspector.patch(target, 'get', entry, name);
+        } else {
+            const restoreGet = kind === 'dataSubject' ? WarixInspector.patch(target, 'get', entry, name) : () => undefined;
+            const restoreGetIn = kind === 'dataSubject' ? WarixInspector.patch(target, 'getIn', entry, name) : () => undefined;
+            entry.restore = () => {
+                restoreGet();
+                restoreGetIn();
+            };
+            WarixInspector.observe(entry, name, target as BehaviorSubject<any>);
+        }
+    }
+
+    /**
+     * Starts accepting registrations. Registering while disabled has no effect
+     * @param options Inspector options
+     */
+    public static enable(options: IWarixInspectorOptions = {}) {
+        WarixInspector.limit = Math.max(0, isNil(options.limit) ? 1000 : options.limit);
+        WarixInspector.enabledSource$.next(true);
+    }
+
+    /**
+     * Unregisters every instance, restoring them to their uninstrumented state, and stops accepting registrations
+     */
+    public static disable() {
+        WarixInspector.names.forEach(name => WarixInspector.unregister(name));
+        WarixInspector.enabledSource$.next(false);
+    }
+
+    /**
+     * Instruments the provided instance under the provided name. Data sources register their state and state map as name.state and name.stateMap
+     * @param name Name to register the instance with. Registering a name again replaces the previous instance
+     * @param target Instance to inspect
+     */
+    public static register<T extends WarixInspectable>(name: string, target: T) {
+        if (!WarixInspector.enabled) {
+            return target;
+        }
+        if (target instanceof WarixLocalDataSource || target instanceof WarixRemoteDataSource) {
+            WarixInspector.attach(`${ name }.state`, target[ 'state$' ]);
+            WarixInspector.attach(`${ name }.stateMap`, target[ 'stateMap' ]);
+        } else {
+            WarixInspector.attach(name, target as WarixDataSubject<any> | WarixArraySubject<any> | WarixDataMap<any>);
+        }
+        return target;
+    }
+
+    public static unregister(name: string) {
+        [ name, `${ name }.state`, `${ name }.stateMap` ].filter(x => WarixInspector.entries.has(x)).forEach(x => {
+            const entry = WarixInspector.entries.get(x);
+            entry.restore();
+            if (entry.subscription) {
+                entry.subscription.unsubscribe();
+            }
+            WarixInspector.entries.delete(x);
+        });
+    }
+
+    public static clear() {
+        WarixInspector.events = [];
+    }
+
+    public static snapshot(): IWarixInspectorSnapshot {
+        const targets: { [ name: string ]: IWarixInspectorTargetSnapshot } = Object.create(null);
+        WarixInspector.entries.forEach((entry, name) => {
+            const subscribers = Object.assign(Object.create(null), entry.subscribers);
+            if (entry.kind !== 'dataMap') {
+                const subject = entry.target as BehaviorSubject<any>;
+                const keyed = Object.keys(entry.subscribers).reduce((total, key) => total + entry.subscribers[ key ], 0);
+                subscribers[ ROOT_KEY ] = Math.max(0, subject.observers.length - keyed - (entry.subscription && !entry.subscription.closed ? 1 : 0));
+            }
+            targets[ name ] = {
+                completed: entry.completed,
+                emissions: entry.emissions,
+                error: entry.error,
+                kind: entry.kind,
+                subscribers,
+                value: entry.kind === 'dataMap' || entry.completed || entry.error ? undefined : (entry.target as BehaviorSubject<any>).getValue()
+            };
+        });
+        return { events: WarixInspector.timeline, targets, timestamp: Date.now() };
+    }
+
+    /**
+     * Serializes the current snapshot to attach it to bug reports
+     */
+    public static export() {
+        return warixStringify(WarixInspector.snapshot());
+    }
+}